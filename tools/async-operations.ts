@@ -0,0 +1,48 @@
+/**
+ * Long-running operation catalog
+ *
+ * Operations that answer 202 while QuickBase is still preparing the result, and
+ * expect the client to resubmit the request until the result is ready. Added to the
+ * patched spec as `x-qb-async` so SDKs can generate wait helpers (`auditWait()`)
+ * instead of hand-coding the poll loop. The patch step checks every location against
+ * the spec and skips entries that no longer match; the generate step writes a poll
+ * sequence of fixtures (pending responses, then the result) for each entry.
+ */
+
+export interface AsyncOperation {
+  /** Status of a response that is still being processed */
+  pendingStatus: string;
+  /** Status of the response that carries the result */
+  doneStatus: string;
+  /**
+   * Values to copy from each pending response into the resubmitted request,
+   * as dotted response body path -> dotted request body path
+   */
+  echo: Record<string, string>;
+  /** Suggested wait before each resubmit: initialMs, multiplied by backoff each time, up to maxMs */
+  delay: {
+    initialMs: number;
+    backoff: number;
+    maxMs: number;
+  };
+  /**
+   * When to stop polling:
+   * - done-status: the response has doneStatus; any status other than
+   *   pendingStatus or doneStatus is an error and also ends the wait
+   */
+  stop: 'done-status';
+  description: string;
+}
+
+/** Long-running operations, keyed by operationId */
+export const ASYNC_OPERATIONS: Record<string, AsyncOperation> = {
+  audit: {
+    pendingStatus: '202',
+    doneStatus: '200',
+    echo: { queryId: 'queryId' },
+    // QuickBase doesn't document a polling interval
+    delay: { initialMs: 1000, backoff: 2, maxMs: 30000 },
+    stop: 'done-status',
+    description: 'Resubmit the same request with the queryId from the 202 response until it returns 200. Events then page with nextToken, sent alongside the same queryId.',
+  },
+};
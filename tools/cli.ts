@@ -11,13 +11,24 @@
  *   validate  - Validate spec structure and references
  *   split     - Split spec by tag for easier editing
  *   build     - Run full pipeline: convert -> patch -> validate
+ *
+ * Options:
+ *   --openapi-3.1         Also write output/quickbase-patched.3.1.json (patch, build)
+ *   --keep-realm-header   Keep QB-Realm-Hostname on each operation (patch, build)
+ *   --infer               Propose overrides from fixtures instead of validating (health)
  */
 
-import { log } from './common.js';
+import { log, PATHS } from './common.js';
+import { join } from 'path';
 
 async function main(): Promise<void> {
-  const args = process.argv.slice(2);
+  const argv = process.argv.slice(2);
+  const flags = new Set(argv.filter((a) => a.startsWith('--') && a !== '--help'));
+  const args = argv.filter((a) => !flags.has(a));
   const command = args[0];
+  const openapi31 = flags.has('--openapi-3.1');
+  const keepRealmHeader = flags.has('--keep-realm-header');
+  const infer = flags.has('--infer');
 
   if (!command) {
     printUsage();
@@ -34,7 +45,7 @@ async function main(): Promise<void> {
 
       case 'patch': {
         const { patch } = await import('./patch.js');
-        await patch(args[1]);
+        await patch(args[1], { openapi31, keepRealmHeader });
         break;
       }
 
@@ -61,8 +72,14 @@ async function main(): Promise<void> {
 
       case 'health':
       case 'check': {
+        if (infer) {
+          const { inferOverrides } = await import('./infer.js');
+          await inferOverrides(args[1]);
+          break;
+        }
+
         const { healthCheck } = await import('./health-check.js');
-        const result = await healthCheck();
+        const result = await healthCheck(args[1]);
         if (!result.valid) {
           process.exit(1);
         }
@@ -79,7 +96,7 @@ async function main(): Promise<void> {
 
         // Step 2: Apply patches
         const { patch } = await import('./patch.js');
-        await patch();
+        await patch(undefined, { openapi31, keepRealmHeader });
 
         // Step 3: Validate
         const { validate } = await import('./validate.js');
@@ -90,6 +107,14 @@ async function main(): Promise<void> {
           process.exit(1);
         }
 
+        if (openapi31) {
+          const result31 = await validate(join(PATHS.output, 'quickbase-patched.3.1.json'));
+          if (!result31.valid) {
+            log('error', '\nBuild failed - OpenAPI 3.1 spec validation errors');
+            process.exit(1);
+          }
+        }
+
         log('success', '\nBuild completed successfully');
         break;
       }
@@ -126,13 +151,22 @@ Commands:
   split [input]     Split spec by tag for easier editing
   generate [input]  Generate fixtures from spec examples
   build [input]     Run full pipeline (convert -> patch -> validate)
-  health            Validate fixtures against spec (alias: check)
+  health [spec]     Validate fixtures against spec (alias: check)
+
+Options:
+  --openapi-3.1         Also write output/quickbase-patched.3.1.json (patch, build)
+  --keep-realm-header   Keep QB-Realm-Hostname on each operation (patch, build)
+  --infer               Propose overrides from fixtures instead of validating (health)
 
 Examples:
   npx tsx tools/cli.ts build
+  npx tsx tools/cli.ts build --openapi-3.1
+  npx tsx tools/cli.ts build --keep-realm-header
   npx tsx tools/cli.ts generate
   npx tsx tools/cli.ts validate ./my-spec.json
   npx tsx tools/cli.ts health
+  npx tsx tools/cli.ts health output/quickbase-patched.3.1.json
+  npx tsx tools/cli.ts health --infer
 `);
 }
 
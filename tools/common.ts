@@ -2,8 +2,8 @@
  * Common utilities for spec tooling
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
-import { dirname, join } from 'path';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync } from 'fs';
+import { dirname, join, relative } from 'path';
 import { fileURLToPath } from 'url';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -17,6 +17,41 @@ export const PATHS = {
   fixtures: join(__dirname, '..', 'fixtures'),
 };
 
+/** Header that names the QuickBase realm every request is made against */
+export const REALM_HEADER = 'QB-Realm-Hostname';
+
+/** Component name of the shared realm header parameter */
+export const REALM_PARAMETER = 'QBRealmHostname';
+
+/** Example realm used in the spec and in generated fixtures */
+export const EXAMPLE_REALM = 'demo.quickbase.com';
+
+/** A tag as declared in the spec's top-level `tags` array */
+export interface TagObject {
+  name: string;
+  description?: string;
+  'x-slug'?: string;
+}
+
+/**
+ * Convert a tag name to its canonical slug (used for fixture folders and split files)
+ * e.g. "Platform Analytics" -> "platform-analytics", "UserToken" -> "usertoken"
+ */
+export function toTagSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Resolve the canonical slug for a tag, preferring the `x-slug` declared in the spec
+ */
+export function getTagSlug(tags: TagObject[] | undefined, tagName: string | undefined): string {
+  if (!tagName) return 'misc';
+  return tags?.find((t) => t.name === tagName)?.['x-slug'] ?? toTagSlug(tagName);
+}
+
 /**
  * Read a JSON file
  */
@@ -125,3 +160,147 @@ export async function runTask<T>(
     throw error;
   }
 }
+
+/** A fixture file: the request or response body with its metadata */
+export interface Fixture {
+  _meta: {
+    description: string;
+    status?: number;
+    headers?: Record<string, string>;
+  };
+  body: unknown;
+}
+
+/** Where a fixture file sits: its tag folder, operation folder and kind */
+export interface FixturePathInfo {
+  tag: string;
+  operationFolder: string;
+  type: 'request' | 'response';
+  status?: number;
+  isManual: boolean;
+}
+
+/** Operations by operationId, with the slug of their first tag (their fixture folder) */
+export type OperationIndex<TOperation> = Map<string, { tag: string; operation: TOperation }>;
+
+/**
+ * Convert operationId to kebab-case (the operation's fixture folder)
+ */
+export function toKebabCase(str: string): string {
+  return str
+    .replace(/([a-z])([A-Z])/g, '$1-$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1-$2')
+    .toLowerCase();
+}
+
+/**
+ * Find all fixture files recursively
+ */
+export function findFixtureFiles(dir: string): string[] {
+  const files: string[] = [];
+
+  if (!existsSync(dir)) {
+    return files;
+  }
+
+  const entries = readdirSync(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...findFixtureFiles(fullPath));
+    } else if (entry.name.endsWith('.json') && entry.name !== '_meta.json') {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Parse fixture path to extract operation info
+ * e.g., "apps/get-app/response.200.json" -> { tag: "apps", operationFolder: "get-app", type: "response", status: 200 }
+ */
+export function parseFixturePath(fixturePath: string): FixturePathInfo | null {
+  const rel = relative(PATHS.fixtures, fixturePath);
+  const parts = rel.split('/');
+
+  if (parts.length < 3) return null;
+
+  const isManual = parts[0] === '_manual';
+  // _manual/errors/response.{status}.json has no operation folder
+  const isSharedErrors = isManual && parts[1] === 'errors' && parts.length === 3;
+  const tagIndex = isManual ? 1 : 0;
+  const opIndex = isManual ? 2 : 1;
+  const fileIndex = isSharedErrors ? 2 : isManual ? 3 : 2;
+
+  if (parts.length < fileIndex + 1) return null;
+
+  const tag = parts[tagIndex];
+  const operationFolder = isSharedErrors ? '' : parts[opIndex];
+  const fileName = parts[fileIndex];
+
+  // Parse filename
+  if (fileName.startsWith('request')) {
+    return { tag, operationFolder, type: 'request', isManual };
+  } else if (fileName.startsWith('response.')) {
+    const match = fileName.match(/^response\.(\d+)/);
+    const status = match ? parseInt(match[1], 10) : undefined;
+    return { tag, operationFolder, type: 'response', status, isManual };
+  }
+
+  return null;
+}
+
+/**
+ * Find operation by matching tag and kebab-case operationId
+ */
+export function findOperation<TOperation>(
+  tag: string,
+  operationFolder: string,
+  operationMap: OperationIndex<TOperation>
+): { operationId: string; operation: TOperation } | null {
+  for (const [opId, { tag: opTag, operation }] of operationMap) {
+    const expectedFolder = toKebabCase(opId);
+    if (opTag === tag && expectedFolder === operationFolder) {
+      return { operationId: opId, operation };
+    }
+  }
+
+  // Try matching just by operationFolder (for _manual/errors or cross-tag fixtures)
+  for (const [opId, { operation }] of operationMap) {
+    const expectedFolder = toKebabCase(opId);
+    if (expectedFolder === operationFolder) {
+      return { operationId: opId, operation };
+    }
+  }
+
+  return null;
+}
+
+export function loadFixture(path: string): Fixture | null {
+  if (!existsSync(path)) {
+    return null;
+  }
+  const content = readFileSync(path, 'utf-8');
+  return JSON.parse(content);
+}
+
+/**
+ * Pick the media type a fixture exercises: its Content-Type header if it has one,
+ * otherwise JSON, otherwise the first media type the spec declares
+ */
+export function selectMediaType<TMedia>(
+  content: Record<string, TMedia> | undefined,
+  contentType: string | undefined
+): { mediaType: string; media?: TMedia } | null {
+  if (!content) return null;
+
+  if (contentType) {
+    const mediaType = contentType.split(';')[0].trim();
+    return { mediaType, media: content[mediaType] };
+  }
+
+  const mediaType = content['application/json'] ? 'application/json' : Object.keys(content)[0];
+  return mediaType ? { mediaType, media: content[mediaType] } : null;
+}
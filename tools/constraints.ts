@@ -0,0 +1,130 @@
+/**
+ * Constraint patterns
+ *
+ * QuickBase states many constraints only in description prose ("Defaults to
+ * false.", "default is 10000, minimum is 1000, max is 50000", "A maximum of 10
+ * variables ..."). The patch step matches each schema and parameter description
+ * against these curated patterns and turns the matches into JSON Schema keywords.
+ * Every match is listed in output/constraints-report.json, applied or not.
+ *
+ * Patterns are deliberately narrow: add one when QuickBase words a constraint a
+ * new way, rather than loosening an existing one.
+ */
+
+export type ConstraintKeyword = 'default' | 'minimum' | 'maximum' | 'maxItems' | 'maxLength';
+
+export interface ConstraintPattern {
+  /** Reported with each match */
+  name: string;
+  /** Each capture group is the value of the keyword at the same index */
+  pattern: RegExp;
+  keywords: ConstraintKeyword[];
+  /** Schema types the pattern applies to */
+  types: string[];
+}
+
+/** A constraint found in a description */
+export interface MinedConstraint {
+  keyword: ConstraintKeyword;
+  value: unknown;
+  pattern: string;
+  /** The text that matched */
+  text: string;
+}
+
+const NUMBER = '(\\d{1,3}(?:,\\d{3})+|\\d+)';
+
+export const CONSTRAINT_PATTERNS: ConstraintPattern[] = [
+  {
+    name: 'default-quoted',
+    // Default is "pdf". / the default value is 'Records'.
+    pattern: /\bdefault(?: value)? is ["'“]([^"'”]+)["'”]/i,
+    keywords: ['default'],
+    types: ['string'],
+  },
+  {
+    name: 'default-blank',
+    pattern: /\bdefault value is blank\b/i,
+    keywords: ['default'],
+    types: ['string'],
+  },
+  {
+    name: 'default-boolean',
+    // Defaults to true. / The default is false.
+    pattern: /\b(?:defaults to|default is) (true|false)\b/i,
+    keywords: ['default'],
+    types: ['boolean'],
+  },
+  {
+    name: 'default-number',
+    pattern: new RegExp(`\\b(?:defaults to|default is) ${NUMBER}\\b`, 'i'),
+    keywords: ['default'],
+    types: ['integer', 'number'],
+  },
+  {
+    name: 'minimum',
+    pattern: new RegExp(`\\bminimum (?:is|of) ${NUMBER}\\b`, 'i'),
+    keywords: ['minimum'],
+    types: ['integer', 'number'],
+  },
+  {
+    name: 'maximum',
+    pattern: new RegExp(`\\bmax(?:imum)? (?:is|of) ${NUMBER}\\b`, 'i'),
+    keywords: ['maximum'],
+    types: ['integer', 'number'],
+  },
+  {
+    name: 'between',
+    pattern: new RegExp(`\\bmust be between ${NUMBER} and ${NUMBER}\\b`, 'i'),
+    keywords: ['minimum', 'maximum'],
+    types: ['integer', 'number'],
+  },
+  {
+    name: 'max-items',
+    // A maximum of 10 variables can be inserted / may contain up to 20 topics
+    pattern: new RegExp(`\\b(?:a maximum of|up to|at most|no more than) ${NUMBER}\\b(?! characters)`, 'i'),
+    keywords: ['maxItems'],
+    types: ['array'],
+  },
+  {
+    name: 'max-length',
+    pattern: new RegExp(`\\b(?:a maximum of|up to|at most|no more than|cannot exceed|limited to) ${NUMBER} characters\\b`, 'i'),
+    keywords: ['maxLength'],
+    types: ['string'],
+  },
+];
+
+/**
+ * Convert a captured value to the schema's type, or undefined if it doesn't fit
+ */
+function toValue(raw: string | undefined, keyword: ConstraintKeyword, type: string): unknown {
+  if (raw === undefined) return keyword === 'default' && type === 'string' ? '' : undefined;
+  if (type === 'boolean') return raw.toLowerCase() === 'true';
+  if (type === 'string' && keyword === 'default') return raw;
+
+  const number = Number(raw.replace(/,/g, ''));
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Find the constraints a description states for a schema of the given type
+ */
+export function mineConstraints(description: string, type: string): MinedConstraint[] {
+  const mined: MinedConstraint[] = [];
+
+  for (const { name, pattern, keywords, types } of CONSTRAINT_PATTERNS) {
+    if (!types.includes(type)) continue;
+
+    const match = pattern.exec(description);
+    if (!match) continue;
+
+    keywords.forEach((keyword, i) => {
+      const value = toValue(match[i + 1], keyword, type);
+      if (value !== undefined) {
+        mined.push({ keyword, value, pattern: name, text: match[0] });
+      }
+    });
+  }
+
+  return mined;
+}
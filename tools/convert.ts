@@ -5,24 +5,45 @@
  * provides better tooling support and cleaner schema definitions.
  */
 
-import { readJson, writeJson, PATHS, log, runTask, findSourceSpec } from './common.js';
+import {
+  readJson,
+  writeJson,
+  PATHS,
+  log,
+  runTask,
+  findSourceSpec,
+  toTagSlug,
+  TagObject,
+  REALM_HEADER,
+  REALM_PARAMETER,
+  EXAMPLE_REALM,
+} from './common.js';
 import { join } from 'path';
 import { existsSync } from 'fs';
 
 interface Swagger2Spec {
   swagger: string;
+  openapi?: string;
   info: { title: string; version: string };
   host: string;
   basePath: string;
   schemes: string[];
   paths: Record<string, unknown>;
   definitions?: Record<string, unknown>;
+  /** Flat list of operations in documentation order (AMF export) */
+  operations?: Array<Record<string, unknown>>;
+  /** Operations grouped by documentation section (AMF export) */
+  groups?: Record<string, Array<Record<string, unknown>>>;
 }
 
 interface OpenAPI3Spec {
   openapi: string;
   info: { title: string; version: string; description?: string };
-  servers: Array<{ url: string; description?: string }>;
+  servers: Array<{
+    url: string;
+    description?: string;
+    variables?: Record<string, { default: string; description?: string }>;
+  }>;
   paths: Record<string, unknown>;
   components: {
     schemas?: Record<string, unknown>;
@@ -30,7 +51,154 @@ interface OpenAPI3Spec {
     parameters?: Record<string, unknown>;
   };
   security?: Array<Record<string, string[]>>;
-  tags?: Array<{ name: string; description?: string }>;
+  tags?: TagObject[];
+  'x-tagGroups'?: Array<{ name: string; tags: string[] }>;
+}
+
+/** Media type used when neither the AMF annotation nor consumes/produces name one */
+const DEFAULT_MEDIA_TYPE = 'application/json';
+
+/** Non text/* media types whose bodies are text rather than raw bytes */
+const TEXT_MEDIA_TYPES = ['application/x-yaml', 'application/yaml', 'application/xml'];
+
+/** Keys AMF uses when an example is wrapped rather than given as a bare value */
+const AMF_EXAMPLE_WRAPPER_KEYS = ['value', 'description', 'summary', 'displayName', 'strict'];
+
+/**
+ * Convert an AMF example name to an OpenAPI examples map key
+ * e.g. "Application with defined variables" -> "application-with-defined-variables"
+ */
+function toExampleKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Check whether an example is an AMF wrapper ({ value, description? }) rather than a bare value
+ */
+function isAmfWrappedExample(example: unknown): example is Record<string, unknown> {
+  return (
+    example !== null &&
+    typeof example === 'object' &&
+    !Array.isArray(example) &&
+    'value' in example &&
+    Object.keys(example).every((key) => AMF_EXAMPLE_WRAPPER_KEYS.includes(key))
+  );
+}
+
+/**
+ * Convert x-amf-examples to an OpenAPI 3.0 named examples map
+ *
+ * AMF examples are either the bare example value or a wrapper object
+ * ({ value, description? }). Both become { summary, description?, value }.
+ */
+function convertExamples(amfExamples: Record<string, unknown>): Record<string, unknown> {
+  const examples: Record<string, unknown> = {};
+
+  for (const [name, example] of Object.entries(amfExamples)) {
+    const converted: Record<string, unknown> = { summary: name };
+    if (isAmfWrappedExample(example)) {
+      if (example.description) {
+        converted.description = example.description;
+      }
+      converted.value = example.value;
+    } else {
+      converted.value = example;
+    }
+
+    examples[toExampleKey(name)] = converted;
+  }
+
+  return examples;
+}
+
+/**
+ * Build an OpenAPI 3.0 media type object from a Swagger 2.0 schema,
+ * lifting x-amf-examples out of the schema into the media type `examples`
+ */
+function convertMediaType(schema: Record<string, unknown>): Record<string, unknown> {
+  const { 'x-amf-examples': amfExamples, ...rest } = schema;
+
+  // A wrapped schema example is the AMF form of a single media type example
+  const example = rest.example;
+  const liftExample = !amfExamples && isAmfWrappedExample(example);
+  if (liftExample) {
+    delete rest.example;
+  }
+
+  const mediaType: Record<string, unknown> = {
+    schema: convertSchemaRef(rest),
+  };
+
+  if (amfExamples && typeof amfExamples === 'object') {
+    mediaType.examples = convertExamples(amfExamples as Record<string, unknown>);
+  } else if (liftExample) {
+    mediaType.example = (example as Record<string, unknown>).value;
+  }
+
+  return mediaType;
+}
+
+/**
+ * Resolve the media types for a body: the AMF annotation on the body itself wins,
+ * then the operation's consumes/produces, then JSON
+ */
+function resolveMediaTypes(amfMediaType: unknown, declared: string[] | undefined): string[] {
+  if (typeof amfMediaType === 'string') {
+    return [amfMediaType];
+  }
+  return declared && declared.length > 0 ? declared : [DEFAULT_MEDIA_TYPE];
+}
+
+/**
+ * Check whether a media type carries a JSON document
+ */
+function isJsonMediaType(mediaType: string): boolean {
+  return mediaType === 'application/json' || mediaType.endsWith('+json');
+}
+
+/**
+ * Check whether a media type carries text (as opposed to raw bytes)
+ */
+function isTextMediaType(mediaType: string): boolean {
+  return mediaType.startsWith('text/') || TEXT_MEDIA_TYPES.includes(mediaType);
+}
+
+/**
+ * Type an untyped non-JSON body schema as a string.
+ * Binary media types get `format: byte` when documented as base64, otherwise `format: binary`.
+ */
+function convertRawBodySchema(schema: Record<string, unknown>, mediaType: string): Record<string, unknown> {
+  if (schema.$ref || schema.type) {
+    return schema;
+  }
+
+  const converted: Record<string, unknown> = { type: 'string' };
+  if (!isTextMediaType(mediaType)) {
+    const isBase64 = /base64/i.test(String(schema.description ?? ''));
+    converted.format = isBase64 ? 'byte' : 'binary';
+  }
+
+  return { ...converted, ...schema };
+}
+
+/**
+ * Build an OpenAPI 3.0 content map for a Swagger 2.0 body schema
+ */
+function convertContent(schema: Record<string, unknown>, mediaTypes: string[]): Record<string, unknown> {
+  const content: Record<string, unknown> = {};
+
+  for (const mediaType of mediaTypes) {
+    const converted = convertMediaType(schema);
+    if (!isJsonMediaType(mediaType)) {
+      converted.schema = convertRawBodySchema(converted.schema as Record<string, unknown>, mediaType);
+    }
+    content[mediaType] = converted;
+  }
+
+  return content;
 }
 
 /**
@@ -71,6 +239,13 @@ function convertParameter(param: Record<string, unknown>): Record<string, unknow
     converted.schema = convertSchemaRef(param.schema as Record<string, unknown>);
   }
 
+  // Carry examples over to the parameter (not the schema) as OpenAPI 3.0 expects
+  if (param['x-amf-examples'] && typeof param['x-amf-examples'] === 'object') {
+    converted.examples = convertExamples(param['x-amf-examples'] as Record<string, unknown>);
+  } else if (param.example !== undefined) {
+    converted.example = param.example;
+  }
+
   return converted;
 }
 
@@ -102,8 +277,8 @@ function convertSchemaRef(schema: Record<string, unknown>): Record<string, unkno
     return { ...schema, properties };
   }
 
-  // Handle allOf, oneOf, anyOf
-  for (const key of ['allOf', 'oneOf', 'anyOf']) {
+  // Handle allOf, oneOf, anyOf (and x-amf-union, rewritten to oneOf later)
+  for (const key of ['allOf', 'oneOf', 'anyOf', 'x-amf-union']) {
     if (Array.isArray(schema[key])) {
       return {
         ...schema,
@@ -147,11 +322,10 @@ function convertOperation(
       converted.requestBody = {
         description: bodyParam.description,
         required: bodyParam.required ?? false,
-        content: {
-          'application/json': {
-            schema: convertSchemaRef(bodyParam.schema as Record<string, unknown>),
-          },
-        },
+        content: convertContent(
+          bodyParam.schema as Record<string, unknown>,
+          resolveMediaTypes(bodyParam['x-amf-mediaType'], operation.consumes as string[] | undefined)
+        ),
       };
     }
   }
@@ -167,11 +341,10 @@ function convertOperation(
       };
 
       if (response.schema) {
-        convertedResponse.content = {
-          'application/json': {
-            schema: convertSchemaRef(response.schema as Record<string, unknown>),
-          },
-        };
+        convertedResponse.content = convertContent(
+          response.schema as Record<string, unknown>,
+          resolveMediaTypes(response['x-amf-mediaType'], operation.produces as string[] | undefined)
+        );
       }
 
       (converted.responses as Record<string, unknown>)[statusCode] = convertedResponse;
@@ -181,6 +354,310 @@ function convertOperation(
   return converted;
 }
 
+/** An x-amf-union found while walking the converted spec */
+interface UnionSite {
+  path: string;
+  schema: Record<string, unknown>;
+  members: Record<string, unknown>[];
+  discriminator?: string;
+  component?: string;
+}
+
+/**
+ * Convert a name to PascalCase for component names
+ */
+function toPascalCase(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * Serialize a schema with sorted keys, ignoring descriptions and examples,
+ * so structurally identical shapes compare equal
+ */
+function canonicalSchemaKey(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalSchemaKey).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([key]) => key !== 'description' && key !== 'example')
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, v]) => `${JSON.stringify(key)}:${canonicalSchemaKey(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Collect x-amf-union sites depth-first, so nested unions come before their parents
+ */
+function collectUnionSites(obj: unknown, path: string, sites: UnionSite[]): void {
+  if (!obj || typeof obj !== 'object') return;
+
+  const record = obj as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(record)) {
+    if (value && typeof value === 'object') {
+      collectUnionSites(value, path ? `${path}.${key}` : key, sites);
+    }
+  }
+
+  if (Array.isArray(record['x-amf-union'])) {
+    sites.push({
+      path,
+      schema: record,
+      members: record['x-amf-union'] as Record<string, unknown>[],
+    });
+  }
+}
+
+/**
+ * Find a property that every union member declares as a distinct constant
+ * (single-value enum), which makes it usable as a discriminator
+ */
+function inferDiscriminator(members: Record<string, unknown>[]): string | undefined {
+  if (members.length < 2) return undefined;
+
+  const allObjects = members.every((m) => m.type === 'object' && m.properties);
+  if (!allObjects) return undefined;
+
+  const firstProperties = members[0].properties as Record<string, Record<string, unknown>>;
+  for (const propName of Object.keys(firstProperties)) {
+    const constants = members.map((m) => {
+      const prop = (m.properties as Record<string, Record<string, unknown>>)[propName];
+      const values = prop?.enum as unknown[] | undefined;
+      return values?.length === 1 ? values[0] : undefined;
+    });
+
+    const allConstant = constants.every((c) => typeof c === 'string');
+    if (allConstant && new Set(constants).size === constants.length) {
+      return propName;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Add a component schema under a free name, returning the name used
+ */
+function addComponent(
+  schemas: Record<string, unknown>,
+  baseName: string,
+  schema: Record<string, unknown>
+): string {
+  let name = baseName;
+  let suffix = 2;
+  while (schemas[name] && canonicalSchemaKey(schemas[name]) !== canonicalSchemaKey(schema)) {
+    name = `${baseName}${suffix++}`;
+  }
+  schemas[name] = schema;
+  return name;
+}
+
+/**
+ * Rewrite every x-amf-union into a standard oneOf
+ *
+ * - Members sharing a constant property get a discriminator (members are
+ *   extracted to components so the mapping can reference them)
+ * - Union shapes that appear more than once become one named component,
+ *   e.g. the `where` filter shared by runQuery and deleteRecords -> WhereUnion
+ */
+function convertUnions(openapi: OpenAPI3Spec): void {
+  const schemas = openapi.components.schemas!;
+  const sites: UnionSite[] = [];
+  collectUnionSites(openapi.paths, 'paths', sites);
+  collectUnionSites(openapi.components.schemas, 'components.schemas', sites);
+
+  // Rewrite each union in place
+  for (const site of sites) {
+    const propName = site.path.split('.').pop() || 'Union';
+    const members = site.members;
+    delete site.schema['x-amf-union'];
+
+    site.discriminator = inferDiscriminator(members);
+    if (site.discriminator) {
+      const mapping: Record<string, string> = {};
+      site.schema.oneOf = members.map((member) => {
+        const constant = ((member.properties as Record<string, Record<string, unknown>>)[site.discriminator!]
+          .enum as string[])[0];
+        const name = addComponent(schemas, `${toPascalCase(propName)}${toPascalCase(constant)}`, member);
+        mapping[constant] = `#/components/schemas/${name}`;
+        return { $ref: mapping[constant] };
+      });
+      site.schema.discriminator = { propertyName: site.discriminator, mapping };
+    } else {
+      site.schema.oneOf = members;
+    }
+  }
+
+  // Group structurally identical unions and extract repeated ones
+  const groups = new Map<string, UnionSite[]>();
+  for (const site of sites) {
+    const key = canonicalSchemaKey({ oneOf: site.schema.oneOf, discriminator: site.schema.discriminator });
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(site);
+  }
+
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+
+    const propName = group[0].path.split('.').pop() || 'Union';
+
+    // Member descriptions/examples are kept only where every occurrence agrees
+    const oneOf = (group[0].schema.oneOf as Record<string, unknown>[]).map((member, index) => {
+      const merged = { ...member };
+      for (const key of ['description', 'example']) {
+        const differs = group.some(
+          (site) => JSON.stringify((site.schema.oneOf as Record<string, unknown>[])[index][key]) !==
+            JSON.stringify(member[key])
+        );
+        if (differs) {
+          delete merged[key];
+        }
+      }
+      return merged;
+    });
+
+    const component: Record<string, unknown> = {};
+    if (group.every((site) => site.schema.description === group[0].schema.description) && group[0].schema.description) {
+      component.description = group[0].schema.description;
+    }
+    component.oneOf = oneOf;
+    if (group[0].schema.discriminator) {
+      component.discriminator = group[0].schema.discriminator;
+    }
+
+    const name = addComponent(schemas, `${toPascalCase(propName)}Union`, component);
+
+    // $ref siblings are ignored in OpenAPI 3.0, so the site becomes a bare $ref
+    for (const site of group) {
+      for (const key of Object.keys(site.schema)) {
+        delete site.schema[key];
+      }
+      site.schema.$ref = `#/components/schemas/${name}`;
+      site.component = name;
+    }
+  }
+
+  // Report
+  for (const site of sites) {
+    const members = site.members.map((m) => (m.$ref as string | undefined)?.split('/').pop() || m.type || 'object');
+    const details = [
+      site.component ? `$ref ${site.component}` : 'inline',
+      site.discriminator ? `discriminator: ${site.discriminator}` : undefined,
+    ].filter(Boolean).join(', ');
+    log('info', `Converted x-amf-union at ${site.path} -> oneOf [${members.join(' | ')}] (${details})`);
+  }
+  log('info', `Converted ${sites.length} x-amf-union schemas to oneOf`);
+}
+
+/**
+ * Build the top-level tags and x-tagGroups from the source `groups`/`operations` sections.
+ * Tags follow the documentation order of the groups; each carries a canonical `x-slug`.
+ */
+function convertTags(swagger: Swagger2Spec, openapi: OpenAPI3Spec): void {
+  const operationOrder = new Map<string, number>();
+  (swagger.operations || []).forEach((op, index) => {
+    operationOrder.set(op.operationId as string, index);
+  });
+
+  const tags: TagObject[] = [];
+  const tagGroups: Array<{ name: string; tags: string[] }> = [];
+  const opsByTag = new Map<string, Array<Record<string, unknown>>>();
+
+  for (const [groupName, operations] of Object.entries(swagger.groups || {})) {
+    const sorted = [...operations].sort(
+      (a, b) =>
+        (operationOrder.get(a.operationId as string) ?? Infinity) -
+        (operationOrder.get(b.operationId as string) ?? Infinity)
+    );
+
+    const groupTags: string[] = [];
+    for (const op of sorted) {
+      for (const tag of (op.tags as string[] | undefined) || [groupName]) {
+        if (!groupTags.includes(tag)) groupTags.push(tag);
+        if (!opsByTag.has(tag)) opsByTag.set(tag, []);
+        opsByTag.get(tag)!.push(op);
+      }
+    }
+    tagGroups.push({ name: groupName, tags: groupTags });
+  }
+
+  for (const [name, operations] of opsByTag) {
+    const summaries = operations.map((op) => op.summary || op.operationId);
+    tags.push({
+      name,
+      description: `Operations for ${name}: ${summaries.join(', ')}.`,
+      'x-slug': toTagSlug(name),
+    });
+  }
+
+  // Tags used by paths but missing from the groups section still get a slug
+  for (const pathItem of Object.values(openapi.paths)) {
+    for (const operation of Object.values(pathItem as Record<string, Record<string, unknown>>)) {
+      for (const name of (operation.tags as string[] | undefined) || []) {
+        if (!tags.some((t) => t.name === name)) {
+          log('warn', `Tag "${name}" is not in the source groups section`);
+          tags.push({ name, 'x-slug': toTagSlug(name) });
+        }
+      }
+    }
+  }
+
+  openapi.tags = tags;
+  openapi['x-tagGroups'] = tagGroups;
+  log('info', `Tags: ${tags.length} in ${tagGroups.length} groups`);
+}
+
+/**
+ * Replace each operation's inline QB-Realm-Hostname header with a $ref to one shared
+ * component parameter, and mark the operation with `x-qb-requires-realm`
+ */
+function convertRealmHeader(openapi: OpenAPI3Spec): void {
+  let marked = 0;
+  let description: string | undefined;
+
+  for (const pathItem of Object.values(openapi.paths) as Array<Record<string, Record<string, unknown>>>) {
+    for (const operation of Object.values(pathItem)) {
+      const parameters = operation.parameters as Array<Record<string, unknown>> | undefined;
+      const index = parameters?.findIndex((p) => p.in === 'header' && p.name === REALM_HEADER) ?? -1;
+      if (!parameters || index === -1) continue;
+
+      // The source marks the header optional on a few operations, but every call needs a realm
+      if (!parameters[index].required) {
+        log('info', `${REALM_HEADER} is optional in ${operation.operationId}; using the required shared parameter`);
+      }
+      description ??= parameters[index].description as string | undefined;
+
+      parameters[index] = { $ref: `#/components/parameters/${REALM_PARAMETER}` };
+      operation['x-qb-requires-realm'] = true;
+      marked++;
+    }
+  }
+
+  if (marked === 0) return;
+
+  openapi.components.parameters = {
+    ...openapi.components.parameters,
+    [REALM_PARAMETER]: {
+      name: REALM_HEADER,
+      in: 'header',
+      description: description || `Your QuickBase realm hostname, for example ${EXAMPLE_REALM}`,
+      required: true,
+      schema: { type: 'string', format: 'hostname' },
+      example: EXAMPLE_REALM,
+    },
+  };
+
+  log('info', `Realm header: ${marked} operations reference #/components/parameters/${REALM_PARAMETER}`);
+}
+
 /**
  * Convert entire Swagger 2.0 spec to OpenAPI 3.0
  */
@@ -199,6 +676,14 @@ export function convertSwaggerToOpenAPI(swagger: Swagger2Spec): OpenAPI3Spec {
       {
         url: baseUrl.replace('//', '/').replace(':/', '://'),
         description: 'QuickBase API',
+        // The API host is shared; the realm travels in the QB-Realm-Hostname header.
+        // Exposed as a server variable so generated clients surface it as a setting.
+        variables: {
+          realm: {
+            default: EXAMPLE_REALM,
+            description: `Your QuickBase realm hostname, sent as the ${REALM_HEADER} header`,
+          },
+        },
       },
     ],
     paths: {},
@@ -217,6 +702,12 @@ export function convertSwaggerToOpenAPI(swagger: Swagger2Spec): OpenAPI3Spec {
           in: 'header',
           description: 'Temporary token: QB-TEMP-TOKEN {token}',
         },
+        appToken: {
+          type: 'apiKey',
+          name: 'QB-App-Token',
+          in: 'header',
+          description: 'App token, sent alongside another token when the app requires app tokens',
+        },
       },
     },
     security: [{ userToken: [] }],
@@ -247,6 +738,15 @@ export function convertSwaggerToOpenAPI(swagger: Swagger2Spec): OpenAPI3Spec {
     }
   }
 
+  // Rewrite x-amf-union (non-standard AMF extension) as oneOf
+  convertUnions(openapi);
+
+  // Build tags from the source groups/operations sections
+  convertTags(swagger, openapi);
+
+  // Share one realm header parameter across operations
+  convertRealmHeader(openapi);
+
   return openapi;
 }
 
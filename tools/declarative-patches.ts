@@ -0,0 +1,401 @@
+/**
+ * Declarative spec patches (overrides/patches.yaml)
+ *
+ * Each entry targets a JSON Pointer, either absolute or relative to one or more
+ * operations (by operationId), and applies exactly one action:
+ *
+ *   - operation: [upsert, runQuery]
+ *     pointer: /requestBody/required
+ *     set: true
+ *
+ * Actions:
+ * - set: replace the target value (the parent must exist)
+ * - merge: deep-merge an object into the target (arrays are replaced)
+ * - remove: true removes the target; a list removes those keys (objects) or values (arrays)
+ * - ref: replace the target with { $ref }
+ * - rename: rename keys of the target object ({ old: new }); fails if a new name is
+ *   already taken, unless the entry sets `overwrite: true`
+ *
+ * Entries apply in file order, and an operation list applies in the order given,
+ * so the result never depends on how the spec happens to be laid out.
+ *
+ * Conditions keep workarounds honest across upstream refreshes:
+ * - expect: the upstream state the fix assumes. When it no longer holds the
+ *   target is left alone and reported as stale (QuickBase may have fixed it).
+ * - ensure: an extra check on the result. Each action also implies one
+ *   (e.g. `set` guarantees the target equals the value); a failed
+ *   postcondition is reported as failed.
+ *
+ *   - operation: upsert
+ *     pointer: /requestBody/required
+ *     expect: { equals: false }
+ *     set: true
+ */
+
+/** A check against the value at a patch target (or below it, via `pointer`) */
+export interface PatchCondition {
+  /** JSON Pointer relative to the patch target */
+  pointer?: string;
+  exists?: boolean;
+  equals?: unknown;
+  /** Objects: every key matches recursively; arrays: every value is present */
+  contains?: unknown;
+}
+
+/** Where a patch was found to be needed (entries proposed by `health --infer`) */
+export interface PatchEvidence {
+  /** Fixture file, relative to fixtures/ */
+  fixture: string;
+  /** JSON path into the fixture body */
+  path: string;
+}
+
+/** A single entry in overrides/patches.yaml */
+export interface DeclarativePatch {
+  description?: string;
+  /** operationId (or list of them); `pointer` is then relative to each operation */
+  operation?: string | string[];
+  /** JSON Pointer to the target; defaults to the operation itself */
+  pointer?: string;
+  set?: unknown;
+  merge?: Record<string, unknown>;
+  remove?: true | string[];
+  ref?: string;
+  rename?: Record<string, string>;
+  /** rename: replace keys the new names already hold instead of failing */
+  overwrite?: boolean;
+  expect?: PatchCondition;
+  ensure?: PatchCondition;
+  /** Not applied; records why the entry exists */
+  evidence?: PatchEvidence[];
+}
+
+/** What happened to one target of one patch */
+export interface PatchResult {
+  /** Index of the entry in overrides/patches.yaml */
+  patch: number;
+  description?: string;
+  action?: Action;
+  operationId?: string;
+  pointer: string;
+  status: 'applied' | 'stale' | 'failed';
+  reason?: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+interface OpenAPISpec {
+  paths: Record<string, object>;
+}
+
+const ACTIONS = ['set', 'merge', 'remove', 'ref', 'rename'] as const;
+
+export type Action = (typeof ACTIONS)[number];
+
+/**
+ * Split a JSON Pointer into unescaped reference tokens
+ * e.g. "/content/application~1json" -> ["content", "application/json"]
+ */
+function parsePointer(pointer: string): string[] {
+  if (pointer === '' || pointer === '/') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`invalid JSON Pointer (must start with /): ${pointer}`);
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Walk to the value at the given tokens, or undefined if any step is missing
+ */
+function resolveTokens(root: unknown, tokens: string[]): unknown {
+  let current = root;
+  for (const token of tokens) {
+    if (!current || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[token];
+  }
+  return current;
+}
+
+/**
+ * Compare two JSON values structurally
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length &&
+    aKeys.every((key) => deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+/**
+ * Check that `value` contains `expected`: every key of an expected object matches
+ * recursively, every element of an expected array is present
+ */
+function deepContains(value: unknown, expected: unknown): boolean {
+  if (Array.isArray(expected)) {
+    return Array.isArray(value) && expected.every((e) => value.some((v) => deepContains(v, e)));
+  }
+  if (expected && typeof expected === 'object') {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+    return Object.entries(expected).every(([key, e]) => deepContains((value as Record<string, unknown>)[key], e));
+  }
+  return value === expected;
+}
+
+/**
+ * Evaluate a condition at the target; returns why it fails, or null if it holds
+ */
+function checkCondition(target: unknown, condition: PatchCondition): string | null {
+  const value = condition.pointer ? resolveTokens(target, parsePointer(condition.pointer)) : target;
+  const at = condition.pointer ? ` at ${condition.pointer}` : '';
+
+  if (condition.exists !== undefined && (value !== undefined) !== condition.exists) {
+    return condition.exists ? `expected a value${at}` : `expected no value${at}, found ${JSON.stringify(value)}`;
+  }
+  if (condition.equals !== undefined && !deepEqual(value, condition.equals)) {
+    return `expected${at} ${JSON.stringify(condition.equals)}, found ${JSON.stringify(value)}`;
+  }
+  if (condition.contains !== undefined && !deepContains(value, condition.contains)) {
+    return `expected${at} to contain ${JSON.stringify(condition.contains)}`;
+  }
+  return null;
+}
+
+/**
+ * The postcondition each action guarantees, checked against the target after applying it
+ */
+function impliedCondition(patch: DeclarativePatch, action: Action): PatchCondition | ((value: unknown) => string | null) {
+  switch (action) {
+    case 'set':
+      return { equals: patch.set };
+    case 'ref':
+      return { equals: { $ref: patch.ref } };
+    case 'merge':
+      return { contains: patch.merge };
+    case 'remove':
+      if (patch.remove === true) return { exists: false };
+      return (value) => {
+        const names = patch.remove as string[];
+        const left = Array.isArray(value)
+          ? names.filter((name) => value.includes(name))
+          : names.filter((name) => value && typeof value === 'object' && name in value);
+        return left.length > 0 ? `still present: ${left.join(', ')}` : null;
+      };
+    case 'rename':
+      return (value) => {
+        const record = (value || {}) as Record<string, unknown>;
+        const targets = Object.values(patch.rename!);
+        // A swapped key is still present under its new role
+        const wrong = Object.entries(patch.rename!)
+          .filter(([from, to]) => from !== to && ((from in record && !targets.includes(from)) || !(to in record)));
+        return wrong.length > 0 ? `not renamed: ${wrong.map(([from]) => from).join(', ')}` : null;
+      };
+  }
+}
+
+/**
+ * Deep-merge `source` into `target`; nested objects merge, everything else replaces
+ */
+function deepMerge(target: Record<string, unknown>, source: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(source)) {
+    const existing = target[key];
+    if (
+      value && typeof value === 'object' && !Array.isArray(value) &&
+      existing && typeof existing === 'object' && !Array.isArray(existing)
+    ) {
+      deepMerge(existing as Record<string, unknown>, value as Record<string, unknown>);
+    } else {
+      target[key] = structuredClone(value);
+    }
+  }
+}
+
+/**
+ * Work out which single action an entry uses
+ */
+function getAction(patch: DeclarativePatch): Action {
+  const actions = ACTIONS.filter((action) => patch[action] !== undefined);
+  if (actions.length !== 1) {
+    throw new Error(`expected exactly one of ${ACTIONS.join(', ')}, got ${actions.length === 0 ? 'none' : actions.join(', ')}`);
+  }
+  return actions[0];
+}
+
+/**
+ * Apply one action at `tokens` below `root`
+ */
+function applyAction(root: Record<string, unknown>, tokens: string[], patch: DeclarativePatch, action: Action): void {
+  const parent = resolveTokens(root, tokens.slice(0, -1));
+  const key = tokens[tokens.length - 1];
+  const target = key === undefined ? root : resolveTokens(root, tokens);
+
+  if (!parent || typeof parent !== 'object') {
+    throw new Error('parent of target not found');
+  }
+  const container = parent as Record<string, unknown>;
+
+  switch (action) {
+    case 'set':
+      if (key === undefined) throw new Error('cannot set the root');
+      container[key] = structuredClone(patch.set);
+      break;
+
+    case 'ref':
+      if (key === undefined) throw new Error('cannot replace the root');
+      container[key] = { $ref: patch.ref };
+      break;
+
+    case 'merge':
+      if (target === undefined && key !== undefined) {
+        container[key] = structuredClone(patch.merge);
+      } else if (target && typeof target === 'object' && !Array.isArray(target)) {
+        deepMerge(target as Record<string, unknown>, patch.merge!);
+      } else {
+        throw new Error('merge target is not an object');
+      }
+      break;
+
+    case 'remove':
+      if (patch.remove === true) {
+        if (key === undefined) throw new Error('cannot remove the root');
+        if (target === undefined) throw new Error('target not found');
+        if (Array.isArray(container)) {
+          container.splice(Number(key), 1);
+        } else {
+          delete container[key];
+        }
+      } else if (Array.isArray(target)) {
+        const values = patch.remove as unknown[];
+        const kept = target.filter((value) => !values.includes(value));
+        target.splice(0, target.length, ...kept);
+      } else if (target && typeof target === 'object') {
+        for (const name of patch.remove!) {
+          delete (target as Record<string, unknown>)[name];
+        }
+      } else {
+        throw new Error('target not found');
+      }
+      break;
+
+    case 'rename':
+      if (!target || typeof target !== 'object' || Array.isArray(target)) {
+        throw new Error('rename target is not an object');
+      }
+      // Rebuild the object so renamed keys keep their position
+      {
+        const record = target as Record<string, unknown>;
+        const taken = Object.entries(patch.rename!)
+          .filter(([from, to]) => from !== to && from in record && to in record && !(to in patch.rename!))
+          .map(([, to]) => to);
+        if (taken.length > 0 && !patch.overwrite) {
+          throw new Error(`rename target already has ${taken.join(', ')} (set overwrite: true to replace)`);
+        }
+        const entries = Object.entries(record)
+          .filter(([k]) => !taken.includes(k))
+          .map(([k, v]) => [patch.rename![k] ?? k, v] as const);
+        for (const k of Object.keys(record)) delete record[k];
+        for (const [k, v] of entries) record[k] = v;
+      }
+      break;
+  }
+}
+
+/**
+ * Index operations by operationId
+ */
+function indexOperations(spec: OpenAPISpec): Map<string, Record<string, unknown>> {
+  const operations = new Map<string, Record<string, unknown>>();
+  for (const pathItem of Object.values(spec.paths) as Array<Record<string, unknown>>) {
+    for (const method of ['get', 'post', 'put', 'delete', 'patch']) {
+      const operation = pathItem[method] as Record<string, unknown> | undefined;
+      if (operation && typeof operation.operationId === 'string') {
+        operations.set(operation.operationId, operation);
+      }
+    }
+  }
+  return operations;
+}
+
+/**
+ * Apply one patch to one root (the spec or an operation) and record the outcome
+ */
+function applyToTarget(
+  root: Record<string, unknown>,
+  patch: DeclarativePatch,
+  action: Action,
+  result: PatchResult
+): void {
+  const tokens = parsePointer(patch.pointer ?? '');
+  const before = structuredClone(resolveTokens(root, tokens));
+
+  if (patch.expect) {
+    const reason = checkCondition(before, patch.expect);
+    if (reason) {
+      Object.assign(result, { status: 'stale', reason, before });
+      return;
+    }
+  }
+
+  applyAction(root, tokens, patch, action);
+  const after = resolveTokens(root, tokens);
+
+  const implied = impliedCondition(patch, action);
+  const reason = (typeof implied === 'function' ? implied(after) : checkCondition(after, implied))
+    ?? (patch.ensure ? checkCondition(after, patch.ensure) : null);
+
+  Object.assign(result, { status: reason ? 'failed' : 'applied', reason: reason ?? undefined, before, after: structuredClone(after) });
+}
+
+/**
+ * Apply declarative patches in order and report the outcome for every target.
+ * Entries that can't be applied are reported as failed; the spec is left as is for them.
+ */
+export function applyDeclarativePatches(spec: OpenAPISpec, patches: DeclarativePatch[]): PatchResult[] {
+  const operations = indexOperations(spec);
+  const results: PatchResult[] = [];
+
+  patches.forEach((patch, index) => {
+    const pointer = patch.pointer ?? '';
+
+    let action: Action;
+    try {
+      action = getAction(patch);
+      if (patch.operation === undefined && patch.pointer === undefined) {
+        throw new Error('needs an operation or a pointer');
+      }
+    } catch (error) {
+      results.push({ patch: index, description: patch.description, pointer, status: 'failed', reason: (error as Error).message });
+      return;
+    }
+
+    const targets: Array<{ operationId?: string; root?: Record<string, unknown> }> = patch.operation === undefined
+      ? [{ root: spec as unknown as Record<string, unknown> }]
+      : (Array.isArray(patch.operation) ? patch.operation : [patch.operation])
+        .map((operationId) => ({ operationId, root: operations.get(operationId) }));
+
+    for (const { operationId, root } of targets) {
+      const result: PatchResult = { patch: index, description: patch.description, action, operationId, pointer, status: 'applied' };
+      results.push(result);
+
+      // A vanished operation is the most likely way for an upstream fix to look
+      if (!root) {
+        Object.assign(result, { status: 'stale', reason: `unknown operation ${operationId}` });
+        continue;
+      }
+
+      try {
+        applyToTarget(root, patch, action, result);
+      } catch (error) {
+        Object.assign(result, { status: 'failed', reason: (error as Error).message });
+      }
+    }
+  });
+
+  return results;
+}
@@ -0,0 +1,75 @@
+/**
+ * Enum catalog
+ *
+ * Domain enums that the source spec repeats inline (or leaves as plain strings),
+ * pulled into named components so SDKs generate one real enum for each. The patch
+ * step replaces every inline enum on a matching property or parameter name whose
+ * values are all listed here, and types the plain-string `properties` below.
+ *
+ * The values are curated from the source's inline enums, descriptions and fixtures.
+ * The build fails when a source enum, a spec example or a fixture (including
+ * _manual) uses a value not listed here: add it here rather than in the fixture.
+ */
+
+export interface EnumDefinition {
+  description: string;
+  values: string[];
+  /** Property and parameter names whose inline enums this replaces */
+  names: string[];
+  /**
+   * Plain-string properties to type with this enum, as `Schema.dotted.path`
+   * (`[]` steps into array items)
+   */
+  properties?: string[];
+}
+
+/** Enum components, keyed by component name */
+export const ENUMS: Record<string, EnumDefinition> = {
+  FieldType: {
+    // createField's list, plus the types only returned by the API (recordid) and
+    // the spelling query responses use for date/time fields (see field-values.ts)
+    description: 'The type of a field, as described [here](https://help.quickbase.com/user-assistance/field_types.html).',
+    values: [
+      'text', 'text-multiple-choice', 'text-multi-line', 'rich-text',
+      'numeric', 'currency', 'rating', 'percent', 'multitext',
+      'email', 'url', 'duration', 'date', 'datetime', 'date time', 'timestamp', 'timeofday',
+      'checkbox', 'user', 'multiuser', 'address', 'phone', 'file', 'recordid',
+    ],
+    names: ['fieldType'],
+    // getFieldUsage reports display names ("Text") instead, so FieldUsageField stays a string
+    properties: [
+      'Field.fieldType',
+      'FieldSummary.type',
+      'RunReportFieldsItem.type',
+      'GetRelationshipsRelationshipsItem.foreignKeyField.type',
+      'GetRelationshipsRelationshipsItem.lookupFields[].type',
+      'GetRelationshipsRelationshipsItem.summaryFields[].type',
+    ],
+  },
+  ReportType: {
+    description: 'The type of a report. Record-level reports (table, calendar, ...) return records; summary and chart reports return summarized values.',
+    values: ['table', 'summary', 'chart', 'calendar', 'timeline', 'map'],
+    names: [],
+    properties: ['ReportDefinition.type'],
+  },
+  SortOrder: {
+    description: 'Sort based on ascending order (ASC), descending order (DESC) or equal values (equal-values).',
+    values: ['ASC', 'DESC', 'equal-values'],
+    names: ['order', 'defaultSortOrder'],
+  },
+  AccumulationType: {
+    description: 'The accumulation function of a summary field.',
+    values: ['AVG', 'SUM', 'MAX', 'MIN', 'STD-DEV', 'COUNT', 'COMBINED-TEXT', 'COMBINED-USER', 'DISTINCT-COUNT'],
+    names: ['accumulationType', 'summaryFunction'],
+  },
+  DocumentFormat: {
+    description: 'The file format of a generated document.',
+    values: ['html', 'pdf', 'docx'],
+    names: ['format'],
+  },
+  TrusteeType: {
+    description: 'The type of a trustee: a user, a group, or an email domain group.',
+    values: ['user', 'group', 'dom-group'],
+    names: ['type'],
+  },
+};
@@ -0,0 +1,75 @@
+/**
+ * Error response catalog
+ *
+ * QuickBase answers every failed call with the same `{message, description}` body,
+ * but the source spec only documents errors for a handful of operations. The patch
+ * step adds these components and attaches the standard error statuses to every
+ * operation; overrides/errors.yaml swaps in another body schema where it differs.
+ */
+
+/** Error body schemas, keyed by component name */
+export const ERROR_SCHEMAS: Record<string, Record<string, unknown>> = {
+  ErrorResponse: {
+    type: 'object',
+    description: 'Standard QuickBase error body.',
+    required: ['message'],
+    properties: {
+      message: { type: 'string', description: 'The type of error found.' },
+      description: { type: 'string', description: 'The description for the occurrence of the error.' },
+      errors: {
+        type: 'array',
+        description: 'Field-level validation errors, when the request body was rejected.',
+        items: {
+          type: 'object',
+          properties: {
+            field: { type: 'string', description: 'The request property that failed validation.' },
+            message: { type: 'string' },
+          },
+        },
+      },
+    },
+    example: { message: 'Bad request', description: 'Data object cannot be empty.' },
+  },
+  QBLErrorResponse: {
+    type: 'object',
+    description: 'Error body of the Solutions APIs. `description` is usually empty; `message` carries the QBL validation details.',
+    required: ['message'],
+    properties: {
+      message: { type: 'string', description: 'What went wrong, including QBL validation details.' },
+      description: { type: 'string', description: 'Usually empty.' },
+    },
+    example: { message: 'Bad request.', description: '' },
+  },
+};
+
+/** Response headers, keyed by component name */
+export const ERROR_HEADERS: Record<string, Record<string, unknown>> = {
+  QbApiRay: {
+    description: 'Request trace ID. Include it when reporting a problem to QuickBase support.',
+    schema: { type: 'string' },
+    example: 'abc123-ray-400',
+  },
+  RetryAfter: {
+    description: 'Seconds to wait before retrying.',
+    schema: { type: 'integer' },
+    example: 10,
+  },
+};
+
+/** Header names as sent by QuickBase, for each header component */
+export const ERROR_HEADER_NAMES: Record<string, string> = {
+  QbApiRay: 'qb-api-ray',
+  RetryAfter: 'Retry-After',
+};
+
+/** Standard error statuses attached to every operation */
+export const ERROR_RESPONSES: Record<string, { name: string; description: string; retryAfter?: boolean }> = {
+  '400': { name: 'BadRequest', description: 'Bad request. The request was malformed or failed validation.' },
+  '401': { name: 'Unauthorized', description: 'Unauthorized. The token is missing, invalid or expired.' },
+  '403': { name: 'Forbidden', description: 'Forbidden. The token does not have access to this resource.' },
+  '404': { name: 'NotFound', description: 'Not found. The requested resource does not exist.' },
+  '429': { name: 'TooManyRequests', description: 'Too many requests. Wait for Retry-After seconds before retrying.', retryAfter: true },
+  '500': { name: 'InternalServerError', description: 'Internal server error.' },
+  '502': { name: 'BadGateway', description: 'Bad gateway.' },
+  '503': { name: 'ServiceUnavailable', description: 'Service unavailable. Retry after Retry-After seconds.', retryAfter: true },
+};
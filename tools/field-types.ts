@@ -0,0 +1,233 @@
+/**
+ * Field type catalog
+ *
+ * A field's `properties` depend on its `fieldType`, but the source spec documents
+ * them as one object holding every option of every type. This lists the properties
+ * each field type takes, with their defaults and which ones only QuickBase sets.
+ * The patch step builds one `<Name>Properties` component per type from it, and
+ * `Field` and `CreateFieldRequest` unions discriminated on `fieldType`; the health
+ * check rejects fixtures that set a property their field type doesn't take.
+ *
+ * Property schemas come from the spec (FieldProperties and the createField and
+ * updateField request properties); `schema` is only given for properties the spec
+ * doesn't document. Curated from QuickBase's field type pages and getFields
+ * responses: add a property here when QuickBase returns it for a new type.
+ */
+
+export interface FieldPropertyDefinition {
+  default?: unknown;
+  /** Set by QuickBase: returned by getField, never sent */
+  readOnly?: boolean;
+  /** Schema of a property the source spec doesn't document */
+  schema?: Record<string, unknown>;
+}
+
+export interface FieldTypeDefinition {
+  /** Component name prefix (`TextField`, `TextFieldProperties`, `CreateTextFieldRequest`) */
+  name: string;
+  description: string;
+  /** Whether createField accepts the type (recordid fields come with the table) */
+  creatable: boolean;
+  /** Properties the type takes besides COMMON_FIELD_PROPERTIES */
+  properties: Record<string, FieldPropertyDefinition>;
+}
+
+/** Properties of every field type: keys, relationships, formulas, lookups and summaries */
+export const COMMON_FIELD_PROPERTIES: Record<string, FieldPropertyDefinition> = {
+  primaryKey: {
+    readOnly: true,
+    schema: { type: 'boolean', description: 'Indicates if the field is the key field of its table.' },
+  },
+  foreignKey: { readOnly: true },
+  xmlTag: { readOnly: true },
+  parentFieldId: { readOnly: true },
+  masterChoiceFieldId: { readOnly: true },
+  masterChoiceTableId: { readOnly: true },
+  masterTableTag: { readOnly: true },
+  // QuickBase returns numLines for every type, not only text
+  numLines: { default: 1 },
+  comments: {},
+  defaultValue: {},
+  formula: {},
+  width: {},
+  snapFieldId: {},
+  displayAsLink: {},
+  lookupTargetFieldId: {},
+  lookupReferenceFieldId: {},
+  summaryFunction: {},
+  summaryTargetFieldId: {},
+  summaryReferenceFieldId: {},
+  summaryTableId: {},
+  summaryQuery: {},
+};
+
+const CHOICE_PROPERTIES: Record<string, FieldPropertyDefinition> = {
+  choices: {},
+  sortAsGiven: { default: false },
+  carryChoices: { default: true },
+  allowNewChoices: { default: false },
+};
+
+const TEXT_PROPERTIES: Record<string, FieldPropertyDefinition> = {
+  ...CHOICE_PROPERTIES,
+  maxLength: { default: 0 },
+  appendOnly: { default: false },
+  allowHTML: { default: false },
+  allowMentions: { default: false },
+};
+
+const NUMERIC_PROPERTIES: Record<string, FieldPropertyDefinition> = {
+  ...CHOICE_PROPERTIES,
+  decimalPlaces: {},
+  numberFormat: {},
+  commaStart: {},
+  units: {},
+  doesAverage: {},
+  doesTotal: {},
+  blankIsZero: {},
+  treatNullAsZero: {
+    schema: { type: 'boolean', description: 'Whether a blank value is treated the same as 0 in calculations (returned by getFields; see blankIsZero).' },
+  },
+};
+
+const DATE_PROPERTIES: Record<string, FieldPropertyDefinition> = {
+  displayMonth: {},
+  displayDayOfWeek: {},
+  displayRelative: {},
+  defaultToday: {},
+};
+
+const USER_PROPERTIES: Record<string, FieldPropertyDefinition> = {
+  displayUser: {},
+  defaultKind: {},
+  defaultValueLuid: {},
+  choicesLuid: {},
+};
+
+/**
+ * Field types, keyed by `fieldType`. `date time` is left out: it is how query
+ * responses spell datetime in fields[], never the type of a field.
+ */
+export const FIELD_TYPES: Record<string, FieldTypeDefinition> = {
+  text: { name: 'TextField', description: 'A text field.', creatable: true, properties: TEXT_PROPERTIES },
+  'text-multiple-choice': {
+    name: 'MultipleChoiceTextField',
+    description: 'A text field whose value is picked from a list of choices.',
+    creatable: true,
+    properties: TEXT_PROPERTIES,
+  },
+  'text-multi-line': {
+    name: 'MultiLineTextField',
+    description: 'A text field edited over several lines.',
+    creatable: true,
+    properties: TEXT_PROPERTIES,
+  },
+  'rich-text': { name: 'RichTextField', description: 'A text field holding formatted HTML.', creatable: true, properties: TEXT_PROPERTIES },
+  multitext: {
+    name: 'MultiSelectTextField',
+    description: 'A text field holding several values picked from a list of choices.',
+    creatable: true,
+    properties: TEXT_PROPERTIES,
+  },
+  numeric: { name: 'NumericField', description: 'A numeric field.', creatable: true, properties: NUMERIC_PROPERTIES },
+  currency: {
+    name: 'CurrencyField',
+    description: 'A numeric field displayed as an amount of money.',
+    creatable: true,
+    properties: { ...NUMERIC_PROPERTIES, currencySymbol: {}, currencyFormat: {} },
+  },
+  rating: { name: 'RatingField', description: 'A numeric field displayed as a rating.', creatable: true, properties: NUMERIC_PROPERTIES },
+  percent: { name: 'PercentField', description: 'A numeric field displayed as a percentage.', creatable: true, properties: NUMERIC_PROPERTIES },
+  duration: {
+    name: 'DurationField',
+    description: 'A length of time.',
+    creatable: true,
+    properties: { decimalPlaces: {}, doesAverage: {}, doesTotal: {}, blankIsZero: {} },
+  },
+  email: {
+    name: 'EmailField',
+    description: 'An email address.',
+    creatable: true,
+    properties: { ...CHOICE_PROPERTIES, displayEmail: {}, defaultDomain: {} },
+  },
+  url: {
+    name: 'UrlField',
+    description: 'A web address.',
+    creatable: true,
+    properties: {
+      appearsAs: {},
+      abbreviate: {},
+      linkText: {},
+      coverText: {},
+      useNewWindow: {},
+      openTargetIn: {},
+      postTempToken: {},
+    },
+  },
+  date: { name: 'DateField', description: 'A date.', creatable: true, properties: DATE_PROPERTIES },
+  datetime: {
+    name: 'DateTimeField',
+    description: 'A date and time.',
+    creatable: true,
+    properties: { ...DATE_PROPERTIES, displayTime: {}, displayTimezone: {} },
+  },
+  timestamp: {
+    name: 'TimestampField',
+    description: 'A date and time set by QuickBase (e.g. Date Created, Date Modified).',
+    creatable: true,
+    properties: { ...DATE_PROPERTIES, displayTime: {}, displayTimezone: {} },
+  },
+  timeofday: {
+    name: 'TimeOfDayField',
+    description: 'A time of day.',
+    creatable: true,
+    properties: { format: {}, hours24: {} },
+  },
+  checkbox: { name: 'CheckboxField', description: 'A checkbox.', creatable: true, properties: { displayCheckboxAsText: {} } },
+  user: { name: 'UserField', description: 'A user.', creatable: true, properties: USER_PROPERTIES },
+  multiuser: { name: 'MultiUserField', description: 'A list of users.', creatable: true, properties: USER_PROPERTIES },
+  address: {
+    name: 'AddressField',
+    description: 'A postal address, made up of one text field per line.',
+    creatable: true,
+    properties: { compositeFields: { readOnly: true } },
+  },
+  phone: {
+    name: 'PhoneField',
+    description: 'A phone number.',
+    creatable: true,
+    properties: { useI18NFormat: {}, hasExtension: {}, defaultCountryCode: {} },
+  },
+  file: {
+    name: 'FileAttachmentField',
+    description: 'A file attachment.',
+    creatable: true,
+    properties: { maxVersions: {}, seeVersions: {}, versionMode: {} },
+  },
+  recordid: { name: 'RecordIdField', description: 'The Record ID# field every table has.', creatable: false, properties: {} },
+};
+
+/**
+ * Spec properties no field type takes: they belong to kinds of field FieldType
+ * doesn't list (report links, predecessors, work dates), or to no documented type
+ */
+export const UNTYPED_FIELD_PROPERTIES = [
+  'exact',
+  'autoSave',
+  'sourceFieldId',
+  'targetFieldId',
+  'targetTableId',
+  'targetTableName',
+  'startField',
+  'durationField',
+  'workWeek',
+  'sortAlpha',
+];
+
+/**
+ * The properties a field type takes, or undefined for a type not in the catalog
+ */
+export function getFieldTypeProperties(fieldType: string): Record<string, FieldPropertyDefinition> | undefined {
+  const definition = FIELD_TYPES[fieldType];
+  return definition && { ...COMMON_FIELD_PROPERTIES, ...definition.properties };
+}
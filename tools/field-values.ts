@@ -0,0 +1,131 @@
+/**
+ * Field value catalog
+ *
+ * One schema per kind of QuickBase field value, replacing a single loose
+ * `string | number | boolean | ...` union. Each schema lists the field types it
+ * applies to in `x-qb-field-types` (the values of `fields[].type` in query
+ * responses), which the health check uses to validate record cells.
+ */
+
+/** Value schemas, keyed by component name */
+export const FIELD_VALUE_SCHEMAS: Record<string, Record<string, unknown>> = {
+  TextValue: {
+    type: 'string',
+    description: 'Text value.',
+    'x-qb-field-types': ['text', 'text-multiple-choice', 'text-multi-line', 'rich-text', 'phone'],
+  },
+  EmailValue: {
+    type: 'string',
+    format: 'email',
+    description: 'Email address.',
+    'x-qb-field-types': ['email'],
+  },
+  URLValue: {
+    type: 'string',
+    description: 'URL. QuickBase does not require a scheme (e.g. "www.example.com").',
+    'x-qb-field-types': ['url'],
+  },
+  NumericValue: {
+    type: 'number',
+    description: 'Numeric value. Percent fields use fractions (0.5 is 50%).',
+    'x-qb-field-types': ['numeric', 'currency', 'percent', 'rating'],
+  },
+  RecordIdValue: {
+    type: 'integer',
+    description: 'Record ID#.',
+    'x-qb-field-types': ['recordid'],
+  },
+  DurationValue: {
+    type: 'number',
+    description: 'Duration in milliseconds.',
+    'x-qb-field-types': ['duration'],
+  },
+  DateValue: {
+    type: 'string',
+    format: 'date',
+    description: 'Date (YYYY-MM-DD).',
+    'x-qb-field-types': ['date'],
+  },
+  DateTimeValue: {
+    type: 'string',
+    format: 'date-time',
+    description: 'Date and time in ISO 8601 format, UTC (e.g. "2019-12-18T08:00:00Z").',
+    'x-qb-field-types': ['datetime', 'date time', 'timestamp'],
+  },
+  TimeOfDayValue: {
+    type: 'string',
+    description: 'Time of day (HH:MM:SS).',
+    'x-qb-field-types': ['timeofday'],
+  },
+  CheckboxValue: {
+    type: 'boolean',
+    description: 'Checkbox state.',
+    'x-qb-field-types': ['checkbox'],
+  },
+  MultitextValue: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Selected choices of a multi-select text field.',
+    'x-qb-field-types': ['multitext'],
+  },
+  UserValue: {
+    type: 'object',
+    description: 'A QuickBase user. When writing, `id` or `email` is enough.',
+    properties: {
+      id: { type: 'string', description: 'User ID.' },
+      email: { type: 'string', description: 'Email address of the user.' },
+      name: { type: 'string', description: 'Full name of the user.' },
+      userName: { type: 'string', description: 'Username of the user.' },
+    },
+    'x-qb-field-types': ['user'],
+  },
+  MultiUserValue: {
+    type: 'array',
+    items: { $ref: '#/components/schemas/UserValue' },
+    description: 'Users of a list-user field.',
+    'x-qb-field-types': ['multiuser'],
+  },
+  AddressValue: {
+    type: 'object',
+    description: 'Address composite field.',
+    properties: {
+      street1: { type: 'string' },
+      street2: { type: 'string' },
+      city: { type: 'string' },
+      region: { type: 'string', description: 'State or province.' },
+      postalCode: { type: 'string' },
+      country: { type: 'string' },
+    },
+    'x-qb-field-types': ['address'],
+  },
+  FileAttachmentValue: {
+    type: 'object',
+    description: 'File attachment as returned by the API.',
+    properties: {
+      url: { type: 'string', description: 'Download path of the latest version.' },
+      versions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            versionNumber: { type: 'integer' },
+            fileName: { type: 'string' },
+            uploaded: { type: 'string', format: 'date-time' },
+            creator: { $ref: '#/components/schemas/UserValue' },
+          },
+        },
+      },
+    },
+    'x-qb-field-types': ['file'],
+  },
+  FileUploadValue: {
+    type: 'object',
+    description: 'File attachment to upload with upsert.',
+    properties: {
+      fileName: { type: 'string' },
+      data: { type: 'string', format: 'byte', description: 'Base64 encoded file contents.' },
+    },
+    required: ['fileName', 'data'],
+    'x-qb-field-types': ['file'],
+  },
+};
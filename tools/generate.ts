@@ -5,13 +5,29 @@
  * in the standard { _meta, body } format.
  */
 
-import { readJson, writeJson, PATHS, log, runTask } from './common.js';
+import {
+  readJson,
+  writeJson,
+  PATHS,
+  log,
+  runTask,
+  getTagSlug,
+  TagObject,
+  REALM_HEADER,
+  EXAMPLE_REALM,
+  toKebabCase,
+} from './common.js';
+import type { AsyncOperation } from './async-operations.js';
 import { join } from 'path';
 import { existsSync, mkdirSync, readdirSync } from 'fs';
 
+/** Pending responses in a generated poll sequence, before the result */
+const PENDING_POLLS = 2;
+
 interface OpenAPISpec {
   openapi: string;
   paths: Record<string, PathItem>;
+  tags?: TagObject[];
 }
 
 interface PathItem {
@@ -26,27 +42,30 @@ interface Operation {
   operationId: string;
   tags?: string[];
   requestBody?: {
-    content?: {
-      'application/json'?: {
-        schema?: {
-          example?: unknown;
-        };
-      };
-    };
+    content?: Record<string, MediaType>;
   };
   responses?: Record<string, Response>;
+  'x-qb-requires-realm'?: boolean;
+  'x-qb-async'?: AsyncOperation;
 }
 
 interface Response {
   description: string;
-  content?: {
-    'application/json'?: {
-      schema?: {
-        example?: unknown;
-        'x-amf-examples'?: Record<string, unknown>;
-      };
-    };
+  content?: Record<string, MediaType>;
+}
+
+interface MediaType {
+  schema?: {
+    example?: unknown;
   };
+  example?: unknown;
+  examples?: Record<string, Example>;
+}
+
+interface Example {
+  summary?: string;
+  description?: string;
+  value?: unknown;
 }
 
 interface Fixture {
@@ -61,6 +80,7 @@ interface Fixture {
 interface RequestFixture {
   _meta: {
     description: string;
+    headers?: Record<string, string>;
   };
   body: unknown;
 }
@@ -72,23 +92,29 @@ interface GenerateResult {
 }
 
 /**
- * Convert operationId to kebab-case folder name
+ * Collect the examples declared in a content map, from the first media type that has any.
+ * Named `examples` take precedence over a single `example` (media type or schema level).
  */
-function toKebabCase(str: string): string {
-  return str
-    .replace(/([a-z])([A-Z])/g, '$1-$2')
-    .replace(/([A-Z])([A-Z][a-z])/g, '$1-$2')
-    .toLowerCase();
-}
+function collectExamples(
+  content: Record<string, MediaType> | undefined
+): Array<{ key?: string; summary?: string; value: unknown; mediaType: string }> {
+  for (const [mediaType, media] of Object.entries(content || {})) {
+    if (media.examples && Object.keys(media.examples).length > 0) {
+      return Object.entries(media.examples).map(([key, example]) => ({
+        key,
+        summary: example.summary,
+        value: example.value,
+        mediaType,
+      }));
+    }
 
-/**
- * Extract the actual example value (handles value wrapper)
- */
-function extractExampleValue(example: unknown): unknown {
-  if (example && typeof example === 'object' && 'value' in example) {
-    return (example as { value: unknown }).value;
+    const example = media.example ?? media.schema?.example;
+    if (example !== undefined) {
+      return [{ value: example, mediaType }];
+    }
   }
-  return example;
+
+  return [];
 }
 
 /**
@@ -105,116 +131,161 @@ function getExistingFixtures(fixtureDir: string): Set<string> {
   return existing;
 }
 
+/**
+ * Read a dotted path from an example body
+ */
+function getValueAtPath(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+}
+
+/**
+ * Write a dotted path into an example body, creating objects along the way
+ */
+function setValueAtPath(value: Record<string, unknown>, path: string, item: unknown): void {
+  const keys = path.split('.');
+  let current = value;
+  for (const key of keys.slice(0, -1)) {
+    current[key] = current[key] && typeof current[key] === 'object' ? current[key] : {};
+    current = current[key] as Record<string, unknown>;
+  }
+  current[keys[keys.length - 1]] = item;
+}
+
+/**
+ * Build the poll sequence of a long-running operation (x-qb-async) from its examples:
+ * request.poll-N.json / response.<status>.poll-N.json pairs, PENDING_POLLS pending
+ * responses and then the result. Every request after the first echoes the fields
+ * of the pending response before it.
+ */
+function generatePollSequence(
+  operation: Operation,
+  baseDir: string,
+  existingFixtures: Set<string>
+): { fixtures: Array<{ path: string; content: Fixture | RequestFixture }>; skipped: number } {
+  const fixtures: Array<{ path: string; content: Fixture | RequestFixture }> = [];
+  let skipped = 0;
+  const async = operation['x-qb-async']!;
+
+  const request = collectExamples(operation.requestBody?.content)[0];
+  const pending = collectExamples(operation.responses?.[async.pendingStatus]?.content)[0];
+  const done = collectExamples(operation.responses?.[async.doneStatus]?.content)[0];
+  if (!request || !pending || !done) {
+    log('warn', `No poll sequence for ${operation.operationId}: missing request, ${async.pendingStatus} or ${async.doneStatus} example`);
+    return { fixtures, skipped };
+  }
+
+  const steps = PENDING_POLLS + 1;
+  for (let step = 1; step <= steps; step++) {
+    const requestFile = `request.poll-${step}.json`;
+    if (!existingFixtures.has(requestFile)) {
+      const body = structuredClone(request.value) as Record<string, unknown>;
+      if (step > 1) {
+        for (const [responsePath, requestPath] of Object.entries(async.echo)) {
+          setValueAtPath(body, requestPath, getValueAtPath(pending.value, responsePath));
+        }
+      }
+      const fixture: RequestFixture = {
+        _meta: { description: `Poll ${step} of ${steps} for ${operation.operationId}` },
+        body,
+      };
+      if (operation['x-qb-requires-realm']) {
+        fixture._meta.headers = { [REALM_HEADER]: EXAMPLE_REALM };
+      }
+      fixtures.push({ path: join(baseDir, requestFile), content: fixture });
+    } else {
+      skipped++;
+    }
+
+    const status = step < steps ? async.pendingStatus : async.doneStatus;
+    const example = step < steps ? pending : done;
+    const responseFile = `response.${status}.poll-${step}.json`;
+    if (!existingFixtures.has(responseFile)) {
+      fixtures.push({
+        path: join(baseDir, responseFile),
+        content: {
+          _meta: {
+            description: `Poll ${step} of ${steps}: ${operation.responses?.[status]?.description || `${status} response`}`,
+            status: Number(status),
+            headers: { 'Content-Type': example.mediaType },
+          },
+          body: example.value,
+        },
+      });
+    } else {
+      skipped++;
+    }
+  }
+
+  return { fixtures, skipped };
+}
+
 /**
  * Generate fixtures for a single operation
  */
 function generateOperationFixtures(
   operation: Operation,
-  tag: string,
+  tagSlug: string,
   existingFixtures: Set<string>
 ): { fixtures: Array<{ path: string; content: Fixture | RequestFixture }>; skipped: number } {
   const fixtures: Array<{ path: string; content: Fixture | RequestFixture }> = [];
   let skipped = 0;
   const operationDir = toKebabCase(operation.operationId);
-  const baseDir = join(PATHS.fixtures, tag.toLowerCase(), operationDir);
+  const baseDir = join(PATHS.fixtures, tagSlug, operationDir);
 
-  // Generate request fixture from requestBody example
-  if (operation.requestBody?.content?.['application/json']?.schema?.example) {
-    const example = operation.requestBody.content['application/json'].schema.example;
-    const body = extractExampleValue(example);
-    const fileName = 'request.json';
+  // Generate request fixtures from requestBody examples
+  const requestExamples = collectExamples(operation.requestBody?.content);
+  for (const example of requestExamples) {
+    // Single example: request.json, multiple: request.{name}.json
+    const fileName = requestExamples.length === 1 ? 'request.json' : `request.${example.key}.json`;
 
     if (!existingFixtures.has(fileName)) {
       const fixture: RequestFixture = {
         _meta: {
-          description: `Request body for ${operation.operationId}`,
+          description: example.summary || `Request body for ${operation.operationId}`,
         },
-        body,
+        body: example.value,
       };
+      // JSON is assumed for requests, so only other media types are recorded
+      if (example.mediaType !== 'application/json') {
+        fixture._meta.headers = { 'Content-Type': example.mediaType };
+      }
+      // Lets mocks assert the realm header is sent
+      if (operation['x-qb-requires-realm']) {
+        fixture._meta.headers = { ...fixture._meta.headers, [REALM_HEADER]: EXAMPLE_REALM };
+      }
       fixtures.push({ path: join(baseDir, fileName), content: fixture });
     } else {
       skipped++;
     }
   }
 
-  // Generate response fixtures from x-amf-examples
+  // Generate response fixtures from named examples
   if (operation.responses) {
     for (const [statusCode, response] of Object.entries(operation.responses)) {
       // Skip non-numeric status codes like "default"
       const status = parseInt(statusCode, 10);
       if (isNaN(status)) continue;
 
-      const schema = response.content?.['application/json']?.schema;
-      if (!schema) continue;
-
-      // Check for x-amf-examples (named examples)
-      if (schema['x-amf-examples']) {
-        const examples = schema['x-amf-examples'];
-        const exampleEntries = Object.entries(examples);
-
-        if (exampleEntries.length === 1) {
-          // Single example: use response.{status}.json
-          const [name, example] = exampleEntries[0];
-          const body = extractExampleValue(example);
-          const fileName = `response.${status}.json`;
-
-          if (!existingFixtures.has(fileName)) {
-            const fixture: Fixture = {
-              _meta: {
-                description: name,
-                status,
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-              },
-              body,
-            };
-            fixtures.push({ path: join(baseDir, fileName), content: fixture });
-          } else {
-            skipped++;
-          }
-        } else {
-          // Multiple examples: use response.{status}.{name}.json
-          for (const [name, example] of exampleEntries) {
-            const body = extractExampleValue(example);
-            const safeName = name
-              .toLowerCase()
-              .replace(/[^a-z0-9]+/g, '-')
-              .replace(/^-|-$/g, '');
-            const fileName = `response.${status}.${safeName}.json`;
-
-            if (!existingFixtures.has(fileName)) {
-              const fixture: Fixture = {
-                _meta: {
-                  description: name,
-                  status,
-                  headers: {
-                    'Content-Type': 'application/json',
-                  },
-                },
-                body,
-              };
-              fixtures.push({ path: join(baseDir, fileName), content: fixture });
-            } else {
-              skipped++;
-            }
-          }
-        }
-      } else if (schema.example) {
-        // Single example property
-        const body = extractExampleValue(schema.example);
-        const fileName = `response.${status}.json`;
+      const responseExamples = collectExamples(response.content);
+      for (const example of responseExamples) {
+        // Single example: response.{status}.json, multiple: response.{status}.{name}.json
+        const fileName = responseExamples.length === 1
+          ? `response.${status}.json`
+          : `response.${status}.${example.key}.json`;
 
         if (!existingFixtures.has(fileName)) {
           const fixture: Fixture = {
             _meta: {
-              description: response.description || `${status} response for ${operation.operationId}`,
+              description: example.summary || response.description || `${status} response for ${operation.operationId}`,
               status,
               headers: {
-                'Content-Type': 'application/json',
+                'Content-Type': example.mediaType,
               },
             },
-            body,
+            body: example.value,
           };
           fixtures.push({ path: join(baseDir, fileName), content: fixture });
         } else {
@@ -224,6 +295,13 @@ function generateOperationFixtures(
     }
   }
 
+  // Generate a poll sequence for long-running operations
+  if (operation['x-qb-async']) {
+    const sequence = generatePollSequence(operation, baseDir, existingFixtures);
+    fixtures.push(...sequence.fixtures);
+    skipped += sequence.skipped;
+  }
+
   return { fixtures, skipped };
 }
 
@@ -254,15 +332,15 @@ export async function generate(inputPath?: string): Promise<GenerateResult> {
         const operation = pathItem[method];
         if (!operation) continue;
 
-        const tag = operation.tags?.[0] || 'misc';
+        const tagSlug = getTagSlug(spec.tags, operation.tags?.[0]);
         const operationDir = toKebabCase(operation.operationId);
-        const fixtureDir = join(PATHS.fixtures, tag.toLowerCase(), operationDir);
+        const fixtureDir = join(PATHS.fixtures, tagSlug, operationDir);
 
         // Get existing fixtures to avoid overwriting
         const existingFixtures = getExistingFixtures(fixtureDir);
 
         // Generate fixtures for this operation
-        const { fixtures, skipped } = generateOperationFixtures(operation, tag, existingFixtures);
+        const { fixtures, skipped } = generateOperationFixtures(operation, tagSlug, existingFixtures);
 
         result.skipped += skipped;
 
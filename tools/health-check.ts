@@ -8,15 +8,43 @@
  * 3. Required fields are present
  * 4. Field types are correct
  * 5. All operations have fixture coverage
+ * 6. Request fixtures declare the realm header when the operation requires one
+ * 7. Record cells match the value schema of their field type (query responses)
+ * 8. `where` filters in request fixtures parse as QuickBase query language
+ * 9. Error fixtures (4xx/5xx) match the ErrorResponse schemas
+ * 10. Enum values (FieldType, ReportType, ...) are known
+ * 11. Values respect minimum, maximum, maxItems and maxLength
+ * 12. lineErrors rows in partial-success responses exist in the companion request's items
+ * 13. Poll sequence requests echo the fields of the pending response before them
+ * 14. YAML bodies (QBL documents) parse and match their schema
+ * 15. Field properties are ones their fieldType takes, and requests don't send read-only ones
  */
 
 import { readFileSync, readdirSync, existsSync } from 'fs';
 import { join, dirname, relative } from 'path';
 import { fileURLToPath } from 'url';
+import { parse as parseYaml } from 'yaml';
+import {
+  PATHS,
+  REALM_HEADER,
+  TagObject,
+  OperationIndex,
+  findFixtureFiles,
+  findOperation,
+  getTagSlug,
+  loadFixture,
+  parseFixturePath,
+  selectMediaType,
+  toKebabCase,
+} from './common.js';
+import { parseQuery, collectQueryFieldIds, QueryParseError } from './query-language.js';
+import { ERROR_RESPONSES } from './error-responses.js';
+import { getFieldTypeProperties } from './field-types.js';
+import type { PartialSuccess } from './partial-success.js';
+import type { AsyncOperation } from './async-operations.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
-const FIXTURES_DIR = join(__dirname, '..', 'fixtures');
-const SPEC_PATH = join(__dirname, '..', 'output', 'quickbase-patched.json');
+export const DEFAULT_SPEC_PATH = join(__dirname, '..', 'output', 'quickbase-patched.json');
 
 interface ValidationResult {
   valid: boolean;
@@ -31,7 +59,16 @@ interface ValidationResult {
 }
 
 interface Schema {
-  type?: string;
+  type?: string | string[];
+  format?: string;
+  pattern?: string;
+  const?: unknown;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  maxItems?: number;
+  maxLength?: number;
+  propertyNames?: Schema;
   $ref?: string;
   items?: Schema;
   properties?: Record<string, Schema>;
@@ -40,56 +77,53 @@ interface Schema {
   oneOf?: Schema[];
   anyOf?: Schema[];
   allOf?: Schema[];
+  discriminator?: { propertyName: string; mapping?: Record<string, string> };
+  'x-qb-field-types'?: string[];
+}
+
+interface MediaType {
+  schema?: Schema;
+  example?: unknown;
+  examples?: Record<string, { summary?: string; value?: unknown }>;
 }
 
 interface Operation {
   operationId: string;
   tags?: string[];
   requestBody?: {
-    content?: Record<string, { schema?: Schema }>;
+    content?: Record<string, MediaType>;
   };
-  responses?: Record<string, {
-    content?: Record<string, { schema?: Schema }>;
-  }>;
+  responses?: Record<string, ResponseObject>;
+  'x-qb-requires-realm'?: boolean;
+  'x-qb-partial-success'?: PartialSuccess;
+  'x-qb-async'?: AsyncOperation;
+}
+
+interface ResponseObject {
+  $ref?: string;
+  content?: Record<string, MediaType>;
 }
 
 interface OpenAPISpec {
   paths: Record<string, Record<string, Operation>>;
+  tags?: TagObject[];
   components?: {
     schemas?: Record<string, Schema>;
+    responses?: Record<string, ResponseObject>;
   };
 }
 
-interface Fixture {
-  _meta: {
-    description: string;
-    status?: number;
-    headers?: Record<string, string>;
-  };
-  body: unknown;
-}
-
 /**
- * Convert operationId to kebab-case (matches generator logic)
+ * Build a map of operationId -> { tag slug, operation } from the spec
  */
-function toKebabCase(str: string): string {
-  return str
-    .replace(/([a-z])([A-Z])/g, '$1-$2')
-    .replace(/([A-Z])([A-Z][a-z])/g, '$1-$2')
-    .toLowerCase();
-}
-
-/**
- * Build a map of operationId -> { tag, operation } from the spec
- */
-function buildOperationMap(spec: OpenAPISpec): Map<string, { tag: string; operation: Operation }> {
-  const map = new Map<string, { tag: string; operation: Operation }>();
+function buildOperationMap(spec: OpenAPISpec): OperationIndex<Operation> {
+  const map: OperationIndex<Operation> = new Map();
 
   for (const [, methods] of Object.entries(spec.paths)) {
     for (const [method, operation] of Object.entries(methods)) {
       if (method === 'parameters') continue; // Skip path-level parameters
       if (operation?.operationId) {
-        const tag = operation.tags?.[0] || 'misc';
+        const tag = getTagSlug(spec.tags, operation.tags?.[0]);
         map.set(operation.operationId, { tag, operation });
       }
     }
@@ -98,105 +132,8 @@ function buildOperationMap(spec: OpenAPISpec): Map<string, { tag: string; operat
   return map;
 }
 
-/**
- * Find all fixture files recursively
- */
-function findFixtureFiles(dir: string): string[] {
-  const files: string[] = [];
-
-  if (!existsSync(dir)) {
-    return files;
-  }
-
-  const entries = readdirSync(dir, { withFileTypes: true });
-
-  for (const entry of entries) {
-    const fullPath = join(dir, entry.name);
-    if (entry.isDirectory()) {
-      files.push(...findFixtureFiles(fullPath));
-    } else if (entry.name.endsWith('.json') && entry.name !== '_meta.json') {
-      files.push(fullPath);
-    }
-  }
-
-  return files;
-}
-
-/**
- * Parse fixture path to extract operation info
- * e.g., "apps/get-app/response.200.json" -> { tag: "apps", operationFolder: "get-app", type: "response", status: 200 }
- */
-function parseFixturePath(fixturePath: string): {
-  tag: string;
-  operationFolder: string;
-  type: 'request' | 'response';
-  status?: number;
-  isManual: boolean;
-} | null {
-  const rel = relative(FIXTURES_DIR, fixturePath);
-  const parts = rel.split('/');
-
-  if (parts.length < 3) return null;
-
-  const isManual = parts[0] === '_manual';
-  const tagIndex = isManual ? 1 : 0;
-  const opIndex = isManual ? 2 : 1;
-  const fileIndex = isManual ? 3 : 2;
-
-  if (parts.length < fileIndex + 1) return null;
-
-  const tag = parts[tagIndex];
-  const operationFolder = parts[opIndex];
-  const fileName = parts[fileIndex];
-
-  // Parse filename
-  if (fileName.startsWith('request')) {
-    return { tag, operationFolder, type: 'request', isManual };
-  } else if (fileName.startsWith('response.')) {
-    const match = fileName.match(/^response\.(\d+)/);
-    const status = match ? parseInt(match[1], 10) : undefined;
-    return { tag, operationFolder, type: 'response', status, isManual };
-  }
-
-  return null;
-}
-
-/**
- * Find operation by matching tag and kebab-case operationId
- */
-function findOperation(
-  tag: string,
-  operationFolder: string,
-  operationMap: Map<string, { tag: string; operation: Operation }>
-): { operationId: string; operation: Operation } | null {
-  for (const [opId, { tag: opTag, operation }] of operationMap) {
-    const expectedFolder = toKebabCase(opId);
-    if (opTag.toLowerCase() === tag.toLowerCase() && expectedFolder === operationFolder) {
-      return { operationId: opId, operation };
-    }
-  }
-
-  // Try matching just by operationFolder (for _manual/errors or cross-tag fixtures)
-  for (const [opId, { operation }] of operationMap) {
-    const expectedFolder = toKebabCase(opId);
-    if (expectedFolder === operationFolder) {
-      return { operationId: opId, operation };
-    }
-  }
-
-  return null;
-}
-
-function loadSpec(): OpenAPISpec {
-  const content = readFileSync(SPEC_PATH, 'utf-8');
-  return JSON.parse(content);
-}
-
-function loadFixture(path: string): Fixture | null {
-  if (!existsSync(path)) {
-    return null;
-  }
-  const content = readFileSync(path, 'utf-8');
+function loadSpec(specPath: string): OpenAPISpec {
+  const content = readFileSync(specPath, 'utf-8');
   return JSON.parse(content);
 }
 
@@ -238,6 +175,19 @@ function validateValueAgainstSchema(
     return;
   }
 
+  // A discriminator picks the branch (e.g. Report by `type`)
+  if (schema.discriminator?.mapping && getTypeOf(value) === 'object') {
+    const { propertyName, mapping } = schema.discriminator;
+    const key = (value as Record<string, unknown>)[propertyName];
+    const branch = typeof key === 'string' && mapping[key] ? resolveRef(mapping[key], spec) : null;
+    if (!branch) {
+      errors.push(`${path}.${propertyName}: unknown ${propertyName} ${JSON.stringify(key)} (expected one of ${Object.keys(mapping).join(', ')})`);
+      return;
+    }
+    validateValueAgainstSchema(value, branch, spec, path, errors, warnings);
+    return;
+  }
+
   // Handle oneOf/anyOf/allOf
   if (schema.oneOf || schema.anyOf) {
     const schemas = schema.oneOf || schema.anyOf || [];
@@ -252,19 +202,25 @@ function validateValueAgainstSchema(
     return;
   }
 
+  // Keywords beside allOf still apply (e.g. a one-value enum narrowing ReportType)
   if (schema.allOf) {
     for (const s of schema.allOf) {
       validateValueAgainstSchema(value, s, spec, path, errors, warnings);
     }
-    return;
   }
 
   const actualType = getTypeOf(value);
+  const types = schema.type ? (Array.isArray(schema.type) ? schema.type : [schema.type]) : [];
+
+  // Constant values (OpenAPI 3.1 const)
+  if ('const' in schema && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push(`${path}: expected constant ${JSON.stringify(schema.const)}, got ${JSON.stringify(value)}`);
+    return;
+  }
 
   // Type checking
-  if (schema.type) {
-    const expectedTypes = Array.isArray(schema.type) ? schema.type : [schema.type];
-    const normalizedExpected = expectedTypes.map(t =>
+  if (types.length > 0) {
+    const normalizedExpected = types.map(t =>
       t === 'integer' || t === 'int' ? 'number' : t
     );
 
@@ -277,15 +233,68 @@ function validateValueAgainstSchema(
     }
   }
 
+  // Enums (e.g. FieldType, ReportType)
+  if (schema.enum && !schema.enum.some((allowed) => JSON.stringify(allowed) === JSON.stringify(value))) {
+    errors.push(`${path}: unknown value ${JSON.stringify(value)} (expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')})`);
+  }
+
+  // Constraints (many mined from descriptions, see tools/constraints.ts)
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: ${value} is less than the minimum ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: ${value} is greater than the maximum ${schema.maximum}`);
+    }
+  }
+  if (typeof value === 'string' && schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors.push(`${path}: longer than ${schema.maxLength} characters`);
+  }
+  if (Array.isArray(value) && schema.maxItems !== undefined && value.length > schema.maxItems) {
+    errors.push(`${path}: ${value.length} items, more than the maximum ${schema.maxItems}`);
+  }
+
+  // Dates (e.g. DateValue and DateTimeValue record cells)
+  if (schema.format === 'date' && typeof value === 'string' && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    errors.push(`${path}: expected date (YYYY-MM-DD), got '${value}'`);
+  }
+  if (schema.format === 'date-time' && typeof value === 'string' && isNaN(Date.parse(value))) {
+    errors.push(`${path}: expected date-time, got '${value}'`);
+  }
+
+  // Base64 bodies (e.g. application/octet-stream file downloads)
+  if (schema.format === 'byte' && typeof value === 'string' && !/^[A-Za-z0-9+/]*={0,2}$/.test(value)) {
+    errors.push(`${path}: expected base64 encoded string`);
+  }
+
   // Array items
-  if (schema.type === 'array' && Array.isArray(value) && schema.items) {
+  if (types.includes('array') && Array.isArray(value) && schema.items) {
     value.forEach((item, index) => {
       validateValueAgainstSchema(item, schema.items!, spec, `${path}[${index}]`, errors, warnings);
     });
   }
 
+  // Object keys (OpenAPI 3.1 propertyNames)
+  if (types.includes('object') && actualType === 'object' && schema.propertyNames?.pattern) {
+    const keyPattern = new RegExp(schema.propertyNames.pattern);
+    for (const key of Object.keys(value as Record<string, unknown>)) {
+      if (!keyPattern.test(key)) {
+        errors.push(`${path}: property name '${key}' doesn't match ${schema.propertyNames.pattern}`);
+      }
+    }
+  }
+
+  // Map values (e.g. QBL resources keyed by logical ID)
+  if (types.includes('object') && actualType === 'object' && typeof schema.additionalProperties === 'object') {
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      if (!schema.properties?.[key]) {
+        validateValueAgainstSchema(item, schema.additionalProperties, spec, `${path}.${key}`, errors, warnings);
+      }
+    }
+  }
+
   // Object properties
-  if (schema.type === 'object' && typeof value === 'object' && value !== null && schema.properties) {
+  if (types.includes('object') && actualType === 'object' && schema.properties) {
     const obj = value as Record<string, unknown>;
 
     // Check required fields
@@ -315,6 +324,310 @@ function validateValueAgainstSchema(
   }
 }
 
+/**
+ * Map each field type to the value schemas that list it in x-qb-field-types
+ */
+function buildFieldTypeSchemas(spec: OpenAPISpec): Map<string, string[]> {
+  const map = new Map<string, string[]>();
+
+  for (const [name, schema] of Object.entries(spec.components?.schemas || {})) {
+    for (const fieldType of schema['x-qb-field-types'] || []) {
+      map.set(fieldType, [...(map.get(fieldType) || []), name]);
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Validate record cells against the value schema of their field type,
+ * using the fields[].type array that ships in the same response (runQuery, runReport)
+ */
+function validateRecordCells(
+  body: unknown,
+  spec: OpenAPISpec,
+  path: string,
+  errors: string[],
+  warnings: string[]
+): void {
+  const { data, fields } = (body || {}) as { data?: unknown; fields?: Array<{ id: number; type: string }> };
+  if (!Array.isArray(data) || !Array.isArray(fields)) return;
+
+  const fieldTypes = new Map(fields.map((f) => [String(f.id), f.type]));
+  const typeSchemas = buildFieldTypeSchemas(spec);
+
+  data.forEach((record, index) => {
+    for (const [fieldId, cell] of Object.entries((record || {}) as Record<string, { value?: unknown }>)) {
+      const cellPath = `${path}.data[${index}].${fieldId}`;
+      const fieldType = fieldTypes.get(fieldId);
+      if (!fieldType) {
+        warnings.push(`${cellPath}: field ${fieldId} is not listed in fields[]`);
+        continue;
+      }
+
+      const schemaNames = typeSchemas.get(fieldType);
+      if (!schemaNames) {
+        warnings.push(`${cellPath}: no value schema for field type '${fieldType}'`);
+        continue;
+      }
+
+      const matches = schemaNames.some((name) => {
+        const cellErrors: string[] = [];
+        validateValueAgainstSchema(cell?.value, { $ref: `#/components/schemas/${name}` }, spec, cellPath, cellErrors, []);
+        return cellErrors.length === 0;
+      });
+      if (!matches) {
+        errors.push(`${cellPath}: ${JSON.stringify(cell?.value)} is not a valid '${fieldType}' value (${schemaNames.join(' or ')})`);
+      }
+    }
+  });
+}
+
+/**
+ * Field IDs listed in the fields[] of the response fixtures next to a request fixture
+ */
+function loadCompanionFieldIds(fixturePath: string): Set<number> | null {
+  const dir = dirname(fixturePath);
+  let ids: Set<number> | null = null;
+
+  for (const file of readdirSync(dir)) {
+    if (!file.startsWith('response') || !file.endsWith('.json')) continue;
+
+    const fixture = loadFixture(join(dir, file));
+    const fields = (fixture?.body as { fields?: Array<{ id: number }> } | undefined)?.fields;
+    if (!Array.isArray(fields)) continue;
+
+    ids = ids || new Set();
+    for (const field of fields) {
+      ids.add(field.id);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Parse every string `where` in a request body as QuickBase query language,
+ * and check the field IDs it uses against the companion response fields[]
+ */
+function validateWhereClauses(
+  body: unknown,
+  fixturePath: string,
+  path: string,
+  errors: string[],
+  warnings: string[]
+): void {
+  const clauses: Array<{ path: string; query: string }> = [];
+
+  const collect = (value: unknown, valuePath: string): void => {
+    if (!value || typeof value !== 'object') return;
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = Array.isArray(value) ? `${valuePath}[${key}]` : `${valuePath}.${key}`;
+      if (key === 'where' && typeof child === 'string') {
+        clauses.push({ path: childPath, query: child });
+      } else {
+        collect(child, childPath);
+      }
+    }
+  };
+  collect(body, path);
+
+  if (clauses.length === 0) return;
+  const fieldIds = loadCompanionFieldIds(fixturePath);
+
+  for (const clause of clauses) {
+    try {
+      const ast = parseQuery(clause.query);
+      if (!fieldIds) continue;
+
+      const missing = collectQueryFieldIds(ast).filter((id) => !fieldIds.has(id));
+      if (missing.length > 0) {
+        warnings.push(`${clause.path}: field ${missing.join(', ')} not in the response fields[]`);
+      }
+    } catch (error) {
+      if (!(error instanceof QueryParseError)) throw error;
+      errors.push(`${clause.path}: invalid query: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Follow a dotted path into a fixture body
+ */
+function getValueAtPath(value: unknown, path: string | undefined): unknown {
+  if (!path) return value;
+  return path.split('.').reduce<unknown>(
+    (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+}
+
+/**
+ * Check that the lineErrors keys of a partial-success response are 1-based indexes
+ * into the items of the request it answers: request.json next to the response, or
+ * for a _manual response, the generated request.json of the same operation
+ */
+function validateLineErrors(
+  body: unknown,
+  fixturePath: string,
+  fixtureInfo: ReturnType<typeof parseFixturePath>,
+  partial: PartialSuccess,
+  path: string,
+  errors: string[],
+  warnings: string[]
+): void {
+  const lineErrors = getValueAtPath(body, partial.response.lineErrors);
+  if (!lineErrors || typeof lineErrors !== 'object') return;
+
+  const candidates = [join(dirname(fixturePath), 'request.json')];
+  if (fixtureInfo?.isManual) {
+    candidates.push(join(PATHS.fixtures, fixtureInfo.tag, fixtureInfo.operationFolder, 'request.json'));
+  }
+  const requestPath = candidates.find((candidate) => existsSync(candidate));
+  const items = requestPath && getValueAtPath(loadFixture(requestPath)?.body, partial.request.items);
+  if (!Array.isArray(items)) {
+    warnings.push(`${path}: no request fixture to check ${partial.response.lineErrors} rows against`);
+    return;
+  }
+
+  const itemsPath = partial.request.items ?? 'body';
+  for (const key of Object.keys(lineErrors)) {
+    const row = Number(key);
+    if (!Number.isInteger(row) || row < 1) {
+      errors.push(`${path}: ${partial.response.lineErrors} key '${key}' is not a 1-based row index`);
+    } else if (row > items.length) {
+      errors.push(`${path}: ${partial.response.lineErrors} row ${row} is beyond the ${items.length} items in ${relative(PATHS.fixtures, requestPath!)} ${itemsPath}`);
+    }
+  }
+}
+
+/**
+ * Check that a poll sequence request (request.poll-N.json) echoes the fields of the
+ * pending response before it (response.<status>.poll-(N-1).json)
+ */
+function validatePollRequest(
+  body: unknown,
+  fixturePath: string,
+  async: AsyncOperation,
+  path: string,
+  errors: string[]
+): void {
+  const step = Number(fixturePath.match(/request\.poll-(\d+)\.json$/)?.[1]);
+  if (!(step > 1)) return;
+
+  const previousPath = join(dirname(fixturePath), `response.${async.pendingStatus}.poll-${step - 1}.json`);
+  const previous = loadFixture(previousPath);
+  if (!previous) {
+    errors.push(`${path}: poll ${step} has no ${relative(PATHS.fixtures, previousPath)} before it`);
+    return;
+  }
+
+  for (const [responsePath, requestPath] of Object.entries(async.echo)) {
+    const expected = getValueAtPath(previous.body, responsePath);
+    if (getValueAtPath(body, requestPath) !== expected) {
+      errors.push(`${path}.${requestPath}: expected ${JSON.stringify(expected)} echoed from ${relative(PATHS.fixtures, previousPath)} ${responsePath}`);
+    }
+  }
+}
+
+/**
+ * Check that every field in a body only sets properties its fieldType takes
+ * (see tools/field-types.ts), and that requests don't send properties QuickBase sets.
+ * A request without a fieldType (updateField) takes the one of the field in the
+ * response.200.json next to it.
+ */
+function validateFieldProperties(
+  body: unknown,
+  fixturePath: string,
+  isRequest: boolean,
+  path: string,
+  errors: string[]
+): void {
+  const check = (fieldType: unknown, properties: unknown, valuePath: string): void => {
+    const allowed = typeof fieldType === 'string' ? getFieldTypeProperties(fieldType) : undefined;
+    if (!allowed || !properties || typeof properties !== 'object') return;
+
+    for (const key of Object.keys(properties)) {
+      if (!allowed[key]) {
+        errors.push(`${valuePath}.properties.${key}: not a property of ${fieldType} fields`);
+      } else if (isRequest && allowed[key].readOnly) {
+        errors.push(`${valuePath}.properties.${key}: set by QuickBase, can't be sent for ${fieldType} fields`);
+      }
+    }
+  };
+
+  const walk = (value: unknown, valuePath: string): void => {
+    if (!value || typeof value !== 'object') return;
+    const field = value as Record<string, unknown>;
+    if (typeof field.fieldType === 'string') {
+      check(field.fieldType, field.properties, valuePath);
+    }
+    for (const [key, child] of Object.entries(value)) {
+      walk(child, Array.isArray(value) ? `${valuePath}[${key}]` : `${valuePath}.${key}`);
+    }
+  };
+  walk(body, path);
+
+  const root = body as Record<string, unknown> | null;
+  if (isRequest && root && typeof root === 'object' && root.properties && root.fieldType === undefined) {
+    const response = loadFixture(join(dirname(fixturePath), 'response.200.json'));
+    check((response?.body as Record<string, unknown> | undefined)?.fieldType, root.properties, path);
+  }
+}
+
+/** QBL `!Ref` tags resolve to their mapping (`{ Role: $Role_Viewer }`) */
+const YAML_TAGS = [{ tag: '!Ref', collection: 'map' as const, resolve: (map: unknown) => map }];
+
+/**
+ * Parse a YAML fixture body (e.g. a QBL document) so it can be validated like JSON.
+ * Returns undefined, with an error, when it doesn't parse.
+ */
+function parseYamlBody(body: unknown, path: string, errors: string[]): unknown {
+  if (typeof body !== 'string') return body;
+  try {
+    return parseYaml(body, { customTags: YAML_TAGS });
+  } catch (error) {
+    errors.push(`${path}: invalid YAML: ${(error as Error).message.split('\n')[0]}`);
+    return undefined;
+  }
+}
+
+/**
+ * Follow a response $ref (#/components/responses/...)
+ */
+function resolveResponse(response: ResponseObject | undefined, spec: OpenAPISpec): ResponseObject | undefined {
+  if (!response?.$ref) return response;
+  return (resolveRef(response.$ref, spec) as ResponseObject | null) ?? undefined;
+}
+
+/**
+ * Validate a generic error fixture (_manual/errors) against the shared
+ * response component for its status
+ */
+function validateErrorFixture(
+  fixturePath: string,
+  status: number | undefined,
+  spec: OpenAPISpec,
+  errors: string[],
+  warnings: string[]
+): boolean {
+  const fixture = loadFixture(fixturePath);
+  if (!fixture) {
+    return false;
+  }
+
+  const relativePath = relative(PATHS.fixtures, fixturePath);
+  const name = ERROR_RESPONSES[String(status ?? fixture._meta.status)]?.name;
+  const schema = name ? spec.components?.responses?.[name]?.content?.['application/json']?.schema : undefined;
+  if (!schema) {
+    warnings.push(`${relativePath}: no shared error response for status ${status ?? fixture._meta.status}`);
+    return true;
+  }
+
+  validateValueAgainstSchema(fixture.body, schema, spec, relativePath, errors, warnings);
+  return true;
+}
+
 function validateFixture(
   fixturePath: string,
   operation: Operation,
@@ -329,61 +642,158 @@ function validateFixture(
     return false;
   }
 
-  const relativePath = relative(FIXTURES_DIR, fixturePath);
+  const relativePath = relative(PATHS.fixtures, fixturePath);
+
+  const contentType = fixture._meta.headers?.['Content-Type'];
 
   if (fixtureInfo?.type === 'request') {
+    // Mocks assert the realm from the fixture, so it has to be there
+    if (operation['x-qb-requires-realm']) {
+      const realm = fixture._meta.headers?.[REALM_HEADER];
+      if (!realm) {
+        errors.push(`${relativePath}: missing ${REALM_HEADER} header required by '${operationId}'`);
+      } else if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(realm)) {
+        errors.push(`${relativePath}: ${REALM_HEADER} '${realm}' is not a hostname`);
+      }
+    }
+
     // Validate request body
-    const requestSchema = operation.requestBody?.content?.['application/json']?.schema;
+    const content = operation.requestBody?.content;
+    const selected = selectMediaType(content, contentType);
+    if (selected && content && !selected.media) {
+      errors.push(`${relativePath}: Content-Type '${selected.mediaType}' not declared for '${operationId}' request (expected ${Object.keys(content).join(', ')})`);
+      return true;
+    }
+
+    const requestSchema = selected?.media?.schema;
     if (!requestSchema) {
       warnings.push(`${relativePath}: no request schema found for '${operationId}'`);
       return true;
     }
 
+    // YAML bodies (QBL documents) are validated once parsed
+    const body = selected!.mediaType.endsWith('yaml') ? parseYamlBody(fixture.body, relativePath, errors) : fixture.body;
+    if (body === undefined) return true;
+
     validateValueAgainstSchema(
-      fixture.body,
+      body,
       requestSchema,
       spec,
       relativePath,
       errors,
       warnings
     );
+
+    validateWhereClauses(fixture.body, fixturePath, relativePath, errors, warnings);
+    validateFieldProperties(body, fixturePath, true, relativePath, errors);
+
+    const async = operation['x-qb-async'];
+    if (async) {
+      validatePollRequest(fixture.body, fixturePath, async, relativePath, errors);
+    }
   } else if (fixtureInfo?.type === 'response') {
-    // Skip validation for error responses (4xx/5xx) - QuickBase uses different schema
-    if (fixtureInfo.status && fixtureInfo.status >= 400) {
+    const statusCode = String(fixtureInfo?.status || fixture._meta.status || 200);
+    const fallback = Number(statusCode) >= 400 ? 'default' : '200';
+    const response = resolveResponse(operation.responses?.[statusCode] || operation.responses?.[fallback], spec);
+    const selected = selectMediaType(response?.content, contentType);
+    if (selected && response?.content && !selected.media) {
+      errors.push(`${relativePath}: Content-Type '${selected.mediaType}' not declared for '${operationId}' status ${statusCode} (expected ${Object.keys(response.content).join(', ')})`);
       return true;
     }
 
-    const statusCode = String(fixtureInfo?.status || fixture._meta.status || 200);
-    const response = operation.responses?.[statusCode] || operation.responses?.['200'];
-    const responseSchema = response?.content?.['application/json']?.schema;
+    const responseSchema = selected?.media?.schema;
 
     if (!responseSchema) {
       warnings.push(`${relativePath}: no response schema found for '${operationId}' status ${statusCode}`);
       return true;
     }
 
+    // YAML bodies (QBL documents) are validated once parsed
+    const body = selected!.mediaType.endsWith('yaml') ? parseYamlBody(fixture.body, relativePath, errors) : fixture.body;
+    if (body === undefined) return true;
+
     validateValueAgainstSchema(
-      fixture.body,
+      body,
       responseSchema,
       spec,
       relativePath,
       errors,
       warnings
     );
+
+    validateRecordCells(fixture.body, spec, relativePath, errors, warnings);
+    validateFieldProperties(body, fixturePath, false, relativePath, errors);
+
+    const partial = operation['x-qb-partial-success'];
+    if (partial?.style === 'line-errors') {
+      validateLineErrors(fixture.body, fixturePath, fixtureInfo, partial, relativePath, errors, warnings);
+    }
   }
 
   return true;
 }
 
+/**
+ * Validate the named examples declared in the spec against their schemas,
+ * and check each named variant has a matching fixture file
+ */
+function validateSpecExamples(
+  operationMap: OperationIndex<Operation>,
+  spec: OpenAPISpec,
+  errors: string[],
+  warnings: string[]
+): number {
+  let checked = 0;
+
+  for (const [opId, { tag, operation }] of operationMap) {
+    const fixtureDir = join(PATHS.fixtures, tag, toKebabCase(opId));
+
+    const mediaTypes: Array<{ label: string; filePrefix: string; mediaType?: MediaType }> = [];
+    for (const mediaType of Object.values(operation.requestBody?.content || {})) {
+      mediaTypes.push({ label: 'request', filePrefix: 'request', mediaType });
+    }
+    for (const [statusCode, response] of Object.entries(operation.responses || {})) {
+      for (const mediaType of Object.values(response.content || {})) {
+        mediaTypes.push({ label: statusCode, filePrefix: `response.${statusCode}`, mediaType });
+      }
+    }
+
+    for (const { label, filePrefix, mediaType } of mediaTypes) {
+      if (!mediaType?.schema || !mediaType.examples) continue;
+
+      const names = Object.keys(mediaType.examples);
+      for (const [name, example] of Object.entries(mediaType.examples)) {
+        validateValueAgainstSchema(
+          example.value,
+          mediaType.schema,
+          spec,
+          `spec:${opId} ${label} examples.${name}`,
+          errors,
+          warnings
+        );
+        checked++;
+
+        // Multiple named examples are generated as {prefix}.{name}.json variants
+        const fileName = names.length === 1 ? `${filePrefix}.json` : `${filePrefix}.${name}.json`;
+        if (!existsSync(join(fixtureDir, fileName))) {
+          warnings.push(`spec:${opId} ${label} example '${name}' has no fixture (expected ${relative(PATHS.fixtures, join(fixtureDir, fileName))})`);
+        }
+      }
+    }
+  }
+
+  return checked;
+}
+
 function checkCoverage(
-  operationMap: Map<string, { tag: string; operation: Operation }>,
+  operationMap: OperationIndex<Operation>,
   coveredOperations: Set<string>
 ): { total: number; covered: number; missing: string[] } {
   const missing: string[] = [];
 
   for (const [opId, { tag }] of operationMap) {
     if (!coveredOperations.has(opId)) {
-      const expectedPath = `${tag.toLowerCase()}/${toKebabCase(opId)}`;
+      const expectedPath = `${tag}/${toKebabCase(opId)}`;
       missing.push(`${opId} (expected at ${expectedPath}/response.200.json)`);
     }
   }
@@ -395,7 +805,7 @@ function checkCoverage(
   };
 }
 
-export async function healthCheck(): Promise<ValidationResult> {
+export async function healthCheck(specPath: string = DEFAULT_SPEC_PATH): Promise<ValidationResult> {
   const errors: string[] = [];
   const warnings: string[] = [];
   const coveredOperations = new Set<string>();
@@ -406,13 +816,13 @@ export async function healthCheck(): Promise<ValidationResult> {
 
   // Load spec
   console.log('\n📋 Loading spec...');
-  const spec = loadSpec();
+  const spec = loadSpec(specPath);
   const operationMap = buildOperationMap(spec);
   console.log(`   Found ${operationMap.size} operations in spec`);
 
   // Find all fixtures
   console.log('\n📁 Discovering fixtures...');
-  const allFixtures = findFixtureFiles(FIXTURES_DIR);
+  const allFixtures = findFixtureFiles(PATHS.fixtures);
   console.log(`   Found ${allFixtures.length} fixture files`);
 
   // Validate fixtures
@@ -425,15 +835,17 @@ export async function healthCheck(): Promise<ValidationResult> {
       continue;
     }
 
-    // Skip _manual/errors - these are generic error fixtures, not operation-specific
+    // _manual/errors are generic error fixtures, not operation-specific
     if (fixtureInfo.isManual && fixtureInfo.tag === 'errors') {
-      validated++;
+      if (validateErrorFixture(fixturePath, fixtureInfo.status, spec, errors, warnings)) {
+        validated++;
+      }
       continue;
     }
 
     const match = findOperation(fixtureInfo.tag, fixtureInfo.operationFolder, operationMap);
     if (!match) {
-      warnings.push(`${relative(FIXTURES_DIR, fixturePath)}: no matching operation found`);
+      warnings.push(`${relative(PATHS.fixtures, fixturePath)}: no matching operation found`);
       continue;
     }
 
@@ -445,6 +857,11 @@ export async function healthCheck(): Promise<ValidationResult> {
     }
   }
 
+  // Validate named examples declared in the spec
+  console.log('\n🧪 Validating spec examples...');
+  const examplesChecked = validateSpecExamples(operationMap, spec, errors, warnings);
+  console.log(`   Examples validated: ${examplesChecked}`);
+
   // Check coverage
   console.log('\n📊 Checking fixture coverage...');
   const coverage = checkCoverage(operationMap, coveredOperations);
@@ -491,8 +908,10 @@ export async function healthCheck(): Promise<ValidationResult> {
   };
 }
 
-// Run if called directly
-healthCheck().catch((error) => {
-  console.error('Fatal error:', error);
-  process.exit(1);
-});
+// Run if called directly (the CLI imports healthCheck instead)
+if (process.argv[1] && fileURLToPath(import.meta.url) === process.argv[1]) {
+  healthCheck(process.argv[2]).catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,392 @@
+/**
+ * Fixture inference (`health --infer`)
+ *
+ * The health check tolerates `null` anywhere and only warns about undocumented
+ * properties, so the spec never learns from what the fixtures show. This walks
+ * every fixture (including _manual) alongside the schema it exercises and proposes
+ * overrides/patches.yaml entries for:
+ *
+ * - nullable: a fixture has `null` where the schema doesn't allow it
+ * - required: a required property is missing from a fixture
+ * - properties: a fixture has a property the schema doesn't document
+ *
+ * Proposals go to output/inferred-patches.yaml. Each one carries `evidence` (the
+ * fixture file and JSON path it was seen at) and an `expect`, so it can be copied
+ * into overrides/patches.yaml as is once reviewed.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join, relative } from 'path';
+import {
+  PATHS,
+  TagObject,
+  findFixtureFiles,
+  findOperation,
+  getTagSlug,
+  loadFixture,
+  log,
+  parseFixturePath,
+  selectMediaType,
+} from './common.js';
+import type { DeclarativePatch, PatchEvidence } from './declarative-patches.js';
+import { ERROR_RESPONSES } from './error-responses.js';
+import { DEFAULT_SPEC_PATH } from './health-check.js';
+
+const OUTPUT_PATH = join(PATHS.output, 'inferred-patches.yaml');
+
+interface Schema {
+  type?: string | string[];
+  nullable?: boolean;
+  format?: string;
+  $ref?: string;
+  items?: Schema;
+  properties?: Record<string, Schema>;
+  required?: string[];
+  additionalProperties?: boolean | Schema;
+  oneOf?: Schema[];
+  anyOf?: Schema[];
+  allOf?: Schema[];
+  discriminator?: { propertyName: string; mapping?: Record<string, string> };
+  description?: string;
+}
+
+interface MediaType {
+  schema?: Schema;
+}
+
+interface ResponseObject {
+  $ref?: string;
+  content?: Record<string, MediaType>;
+}
+
+interface Operation {
+  operationId: string;
+  tags?: string[];
+  requestBody?: {
+    content?: Record<string, MediaType>;
+  };
+  responses?: Record<string, ResponseObject>;
+}
+
+interface OpenAPISpec {
+  paths: Record<string, Record<string, Operation>>;
+  tags?: TagObject[];
+  components?: {
+    schemas?: Record<string, Schema>;
+    responses?: Record<string, ResponseObject>;
+  };
+}
+
+/** An operation with the JSON Pointer it lives at */
+interface OperationEntry {
+  tag: string;
+  operation: Operation;
+  pointer: string;
+}
+
+/** One finding, before findings at the same target are merged */
+interface Observation {
+  kind: 'nullable' | 'required' | 'property';
+  /** JSON Pointer of the schema the fix applies to */
+  pointer: string;
+  /** Property name (required and property findings) */
+  name?: string;
+  /** The value seen (property findings) */
+  value?: unknown;
+  evidence: PatchEvidence;
+}
+
+export interface InferenceResult {
+  fixtures: number;
+  proposals: DeclarativePatch[];
+  /** Proposals by kind */
+  counts: Record<Observation['kind'], number>;
+}
+
+/**
+ * Escape a JSON Pointer reference token
+ */
+function toPointerToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Index operations by operationId with their JSON Pointer
+ */
+function buildOperationIndex(spec: OpenAPISpec): Map<string, OperationEntry> {
+  const index = new Map<string, OperationEntry>();
+
+  for (const [path, methods] of Object.entries(spec.paths)) {
+    for (const [method, operation] of Object.entries(methods)) {
+      if (method === 'parameters' || !operation?.operationId) continue;
+      index.set(operation.operationId, {
+        tag: getTagSlug(spec.tags, operation.tags?.[0]),
+        operation,
+        pointer: `/paths/${toPointerToken(path)}/${method}`,
+      });
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Find the schema a fixture exercises, and the JSON Pointer it lives at
+ */
+function locateFixtureSchema(
+  fixturePath: string,
+  contentType: string | undefined,
+  spec: OpenAPISpec,
+  operations: Map<string, OperationEntry>
+): { schema: Schema; pointer: string } | null {
+  const info = parseFixturePath(fixturePath);
+  if (!info) return null;
+
+  // Shared error fixtures use the response component for their status
+  let responsePointer: string | undefined;
+  let response: ResponseObject | undefined;
+
+  if (info.isManual && info.tag === 'errors') {
+    const name = ERROR_RESPONSES[String(info.status)]?.name;
+    if (!name) return null;
+    responsePointer = `/components/responses/${name}`;
+    response = spec.components?.responses?.[name];
+  } else {
+    const match = findOperation(info.tag, info.operationFolder, operations);
+    const entry = match && operations.get(match.operationId);
+    if (!entry) return null;
+
+    if (info.type === 'request') {
+      const selected = selectMediaType(entry.operation.requestBody?.content, contentType);
+      if (!selected?.media?.schema) return null;
+      return {
+        schema: selected.media.schema,
+        pointer: `${entry.pointer}/requestBody/content/${toPointerToken(selected.mediaType)}/schema`,
+      };
+    }
+
+    const status = String(info.status || 200);
+    const key = entry.operation.responses?.[status] ? status : Number(status) >= 400 ? 'default' : '200';
+    responsePointer = `${entry.pointer}/responses/${key}`;
+    response = entry.operation.responses?.[key];
+  }
+
+  if (response?.$ref) {
+    responsePointer = response.$ref.replace(/^#/, '');
+    response = spec.components?.responses?.[response.$ref.split('/').pop() || ''];
+  }
+
+  const selected = selectMediaType(response?.content, contentType);
+  if (!selected?.media?.schema) return null;
+  return {
+    schema: selected.media.schema,
+    pointer: `${responsePointer}/content/${toPointerToken(selected.mediaType)}/schema`,
+  };
+}
+
+/**
+ * Walk a fixture value alongside its schema and record where they disagree.
+ * Unions are entered through their discriminator (e.g. Field by `fieldType`);
+ * oneOf/anyOf without one are not: which branch a value was meant for can't
+ * be told from the value alone.
+ */
+function observe(
+  value: unknown,
+  schema: Schema,
+  pointer: string,
+  path: string,
+  fixture: string,
+  spec: OpenAPISpec,
+  observations: Observation[]
+): void {
+  const evidence = { fixture, path };
+
+  if (value === null) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (schema.nullable !== true && !types.includes('null')) {
+      observations.push({ kind: 'nullable', pointer, evidence });
+    }
+    return;
+  }
+
+  if (schema.$ref) {
+    const name = schema.$ref.split('/').pop() || '';
+    const resolved = spec.components?.schemas?.[name];
+    if (resolved) {
+      observe(value, resolved, `/components/schemas/${toPointerToken(name)}`, path, fixture, spec, observations);
+    }
+    return;
+  }
+
+  if (schema.discriminator?.mapping) {
+    const key = value && typeof value === 'object' ? (value as Record<string, unknown>)[schema.discriminator.propertyName] : undefined;
+    const ref = typeof key === 'string' ? schema.discriminator.mapping[key] : undefined;
+    if (ref) {
+      observe(value, { $ref: ref }, pointer, path, fixture, spec, observations);
+    }
+    return;
+  }
+
+  if (schema.oneOf || schema.anyOf) return;
+
+  if (schema.allOf) {
+    schema.allOf.forEach((part, i) => observe(value, part, `${pointer}/allOf/${i}`, path, fixture, spec, observations));
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.items) {
+      value.forEach((item, i) => observe(item, schema.items!, `${pointer}/items`, `${path}[${i}]`, fixture, spec, observations));
+    }
+    return;
+  }
+
+  if (typeof value !== 'object' || !schema.properties) return;
+
+  const obj = value as Record<string, unknown>;
+  for (const name of schema.required || []) {
+    if (!(name in obj)) {
+      observations.push({ kind: 'required', pointer: `${pointer}/required`, name, evidence });
+    }
+  }
+
+  for (const [key, item] of Object.entries(obj)) {
+    const propSchema = schema.properties[key];
+    if (propSchema) {
+      observe(item, propSchema, `${pointer}/properties/${toPointerToken(key)}`, `${path}.${key}`, fixture, spec, observations);
+    } else if (!schema.additionalProperties) {
+      observations.push({
+        kind: 'property',
+        pointer: `${pointer}/properties`,
+        name: key,
+        value: item,
+        evidence: { fixture, path: `${path}.${key}` },
+      });
+    }
+  }
+}
+
+/**
+ * Describe the values seen for an undocumented property as a schema
+ */
+function describeValues(values: unknown[]): Schema {
+  const seen = values.filter((v) => v !== null);
+  const schema: Schema = {};
+
+  const kinds = new Set(seen.map((v) => (Array.isArray(v) ? 'array' : typeof v)));
+  if (kinds.size === 1) {
+    const kind = [...kinds][0];
+    if (kind === 'number') {
+      schema.type = seen.every((v) => Number.isInteger(v)) ? 'integer' : 'number';
+    } else if (kind === 'string') {
+      schema.type = 'string';
+      if (seen.every((v) => /^\d{4}-\d{2}-\d{2}T/.test(v as string) && !isNaN(Date.parse(v as string)))) {
+        schema.format = 'date-time';
+      }
+    } else if (kind === 'array') {
+      schema.type = 'array';
+      schema.items = describeValues((seen as unknown[][]).flat());
+    } else if (kind === 'object') {
+      schema.type = 'object';
+      const objects = seen as Record<string, unknown>[];
+      const keys = [...new Set(objects.flatMap((o) => Object.keys(o)))];
+      schema.properties = Object.fromEntries(
+        keys.map((key) => [key, describeValues(objects.filter((o) => key in o).map((o) => o[key]))])
+      );
+    } else if (kind === 'boolean') {
+      schema.type = 'boolean';
+    }
+  }
+
+  if (seen.length < values.length) {
+    schema.nullable = true;
+  }
+  return schema;
+}
+
+/**
+ * Merge observations at the same target into one proposal each
+ */
+function toProposals(observations: Observation[]): Pick<InferenceResult, 'proposals' | 'counts'> {
+  const groups = new Map<string, Observation[]>();
+  for (const observation of observations) {
+    const key = `${observation.kind} ${observation.pointer} ${observation.name ?? ''}`;
+    groups.set(key, [...(groups.get(key) || []), observation]);
+  }
+
+  const proposals: DeclarativePatch[] = [];
+  const counts = { nullable: 0, required: 0, property: 0 };
+  for (const group of groups.values()) {
+    const { kind, pointer, name } = group[0];
+    const evidence = group.map((o) => o.evidence);
+    counts[kind]++;
+
+    if (kind === 'nullable') {
+      proposals.push({
+        description: 'Nullable in fixtures',
+        pointer,
+        expect: { pointer: '/nullable', exists: false },
+        merge: { nullable: true },
+        evidence,
+      });
+    } else if (kind === 'required') {
+      proposals.push({
+        description: `'${name}' is missing from fixtures`,
+        pointer,
+        expect: { contains: [name] },
+        remove: [name!],
+        evidence,
+      });
+    } else {
+      proposals.push({
+        description: `Undocumented property '${name}'`,
+        pointer,
+        expect: { pointer: `/${toPointerToken(name!)}`, exists: false },
+        merge: { [name!]: describeValues(group.map((o) => o.value)) },
+        evidence,
+      });
+    }
+  }
+
+  proposals.sort((a, b) => a.pointer!.localeCompare(b.pointer!));
+  return { proposals, counts };
+}
+
+/**
+ * Scan all fixtures and write proposed overrides to output/inferred-patches.yaml
+ */
+export async function inferOverrides(specPath: string = DEFAULT_SPEC_PATH): Promise<InferenceResult> {
+  const spec: OpenAPISpec = JSON.parse(readFileSync(specPath, 'utf-8'));
+  const operations = buildOperationIndex(spec);
+  const observations: Observation[] = [];
+  let fixtures = 0;
+
+  for (const fixturePath of findFixtureFiles(PATHS.fixtures)) {
+    const fixture = loadFixture(fixturePath);
+    if (!fixture) continue;
+
+    const located = locateFixtureSchema(fixturePath, fixture._meta.headers?.['Content-Type'], spec, operations);
+    if (!located) continue;
+
+    observe(fixture.body, located.schema, located.pointer, '$', relative(PATHS.fixtures, fixturePath), spec, observations);
+    fixtures++;
+  }
+
+  const { proposals, counts } = toProposals(observations);
+
+  const yaml = await import('yaml');
+  const header = [
+    '# Proposed by `npm run health -- --infer` from the fixtures; do not edit.',
+    '# Review each entry and copy the ones that hold into overrides/patches.yaml.',
+    '',
+  ].join('\n');
+  writeFileSync(OUTPUT_PATH, header + (proposals.length > 0 ? yaml.stringify(proposals) : '[]\n'));
+
+  log('info', `Scanned ${fixtures} fixtures`);
+  log(
+    proposals.length > 0 ? 'warn' : 'success',
+    `${proposals.length} proposed overrides (${counts.nullable} nullable, ${counts.required} required, ${counts.property} undocumented properties) written to ${relative(PATHS.specDir, OUTPUT_PATH)}`
+  );
+
+  return { fixtures, proposals, counts };
+}
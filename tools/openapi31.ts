@@ -0,0 +1,160 @@
+/**
+ * Derive an OpenAPI 3.1 document from the patched OpenAPI 3.0 spec
+ *
+ * The 3.0.3 output stays the primary artifact (oapi-codegen only reads 3.0).
+ * The 3.1 variant uses JSON Schema 2020-12 keywords that 3.0 can't express:
+ * - `type: [T, 'null']` instead of `nullable: true`
+ * - `$ref` with sibling keywords (e.g. the sortBy description)
+ * - `const` instead of single-value `enum` (e.g. the `false` branch of SortByUnion)
+ * - `propertyNames` for QuickbaseRecord keys (numeric field IDs)
+ * - numeric `exclusiveMinimum`/`exclusiveMaximum`
+ */
+
+import { log } from './common.js';
+
+interface OpenAPISpec {
+  openapi: string;
+  paths: Record<string, unknown>;
+  components: {
+    schemas?: Record<string, object>;
+  };
+}
+
+/** Keys whose values are example data rather than schemas */
+const EXAMPLE_KEYS = ['example', 'examples'];
+
+/**
+ * Rewrite a single schema object from 3.0 to 3.1 keywords
+ */
+function convertSchemaKeywords(schema: Record<string, unknown>): void {
+  // nullable: true -> type array including 'null'
+  if ('nullable' in schema) {
+    if (schema.nullable === true) {
+      if (typeof schema.type === 'string') {
+        schema.type = [schema.type, 'null'];
+      } else if (schema.$ref) {
+        const ref = schema.$ref;
+        delete schema.$ref;
+        schema.anyOf = [{ $ref: ref }, { type: 'null' }];
+      } else if (Array.isArray(schema.oneOf)) {
+        schema.oneOf = [...schema.oneOf, { type: 'null' }];
+      }
+    }
+    delete schema.nullable;
+  }
+
+  // Single-value enum -> const
+  if (Array.isArray(schema.enum) && schema.enum.length === 1) {
+    schema.const = schema.enum[0];
+    delete schema.enum;
+  }
+
+  // Boolean exclusive bounds -> numeric exclusive bounds
+  for (const [exclusive, bound] of [['exclusiveMinimum', 'minimum'], ['exclusiveMaximum', 'maximum']]) {
+    if (schema[exclusive] === true && typeof schema[bound] === 'number') {
+      schema[exclusive] = schema[bound];
+      delete schema[bound];
+    } else if (schema[exclusive] === false) {
+      delete schema[exclusive];
+    }
+  }
+}
+
+/**
+ * Recursively convert schemas, skipping example payloads.
+ * `propertyMap` is set for the value of a schema's `properties` keyword, whose
+ * keys are property names: a property named "properties" or "example" is still a schema.
+ */
+function convertSchemas(obj: unknown, propertyMap: boolean = false): void {
+  if (!obj || typeof obj !== 'object') return;
+
+  if (Array.isArray(obj)) {
+    for (const item of obj) {
+      convertSchemas(item);
+    }
+    return;
+  }
+
+  const record = obj as Record<string, unknown>;
+
+  // Property maps hold schemas by name; they aren't schemas themselves
+  if (propertyMap) {
+    for (const value of Object.values(record)) {
+      convertSchemas(value);
+    }
+    return;
+  }
+
+  convertSchemaKeywords(record);
+
+  for (const [key, value] of Object.entries(record)) {
+    if (EXAMPLE_KEYS.includes(key)) continue;
+    convertSchemas(value, key === 'properties');
+  }
+}
+
+/**
+ * Convert the patched 3.0 spec (with $ref siblings still attached) to 3.1.
+ * The input is modified in place.
+ */
+export function toOpenAPI31<T extends OpenAPISpec>(spec: T): T {
+  spec.openapi = '3.1.0';
+
+  convertSchemas(spec.paths);
+  convertSchemas(spec.components);
+
+  // QuickbaseRecord keys are field IDs
+  const record = spec.components.schemas?.['QuickbaseRecord'] as Record<string, unknown> | undefined;
+  if (record) {
+    record.propertyNames = {
+      pattern: '^[0-9]+$',
+      description: 'Numeric field ID',
+    };
+  }
+
+  log('info', 'Converted spec to OpenAPI 3.1');
+  return spec;
+}
+
+/**
+ * Remove keywords next to $ref, which OpenAPI 3.0 ignores.
+ * Returns the number of $refs that had siblings.
+ */
+export function stripRefSiblings(obj: unknown, propertyMap: boolean = false): number {
+  if (!obj || typeof obj !== 'object') return 0;
+
+  let stripped = 0;
+
+  if (Array.isArray(obj)) {
+    for (const item of obj) {
+      stripped += stripRefSiblings(item);
+    }
+    return stripped;
+  }
+
+  const record = obj as Record<string, unknown>;
+
+  // Property maps hold schemas by name (see convertSchemas)
+  if (propertyMap) {
+    for (const value of Object.values(record)) {
+      stripped += stripRefSiblings(value);
+    }
+    return stripped;
+  }
+
+  if (typeof record.$ref === 'string' && Object.keys(record).length > 1) {
+    for (const key of Object.keys(record)) {
+      if (key !== '$ref') {
+        delete record[key];
+      }
+    }
+    return 1;
+  }
+
+  for (const [key, value] of Object.entries(record)) {
+    if (EXAMPLE_KEYS.includes(key)) continue;
+    stripped += stripRefSiblings(value, key === 'properties');
+  }
+
+  return stripped;
+}
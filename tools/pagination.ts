@@ -0,0 +1,112 @@
+/**
+ * Pagination catalog
+ *
+ * How each paginated operation pages through results, added to the patched spec
+ * as `x-qb-pagination` so SDKs can generate paginators instead of hand-coding them.
+ * The patch step checks every request and response location against the spec and
+ * skips entries that no longer match.
+ */
+
+/** Where a request carries a cursor value */
+export interface PaginationParameter {
+  in: 'body' | 'query';
+  /** Query parameter name, or dotted property path in the request body */
+  name: string;
+}
+
+export interface Pagination {
+  /** offset: skip/top counters; token: opaque nextPageToken */
+  style: 'offset' | 'token';
+  request: {
+    skip?: PaginationParameter;
+    top?: PaginationParameter;
+    nextPageToken?: PaginationParameter;
+  };
+  /** Dotted paths into the success response body */
+  response: {
+    /** The page items; omitted when the response body is the array itself */
+    items?: string;
+    totalRecords?: string;
+    numRecords?: string;
+    skip?: string;
+    nextPageToken?: string;
+  };
+  /**
+   * When to stop requesting pages:
+   * - total-reached: skip + numRecords >= totalRecords, or numRecords is 0
+   * - empty-page: a page comes back with no items
+   * - no-token: nextPageToken is missing or empty
+   */
+  stop: 'total-reached' | 'empty-page' | 'no-token';
+  description: string;
+}
+
+/** Paginated operations, keyed by operationId */
+export const PAGINATION: Record<string, Pagination> = {
+  runQuery: {
+    style: 'offset',
+    request: {
+      skip: { in: 'body', name: 'options.skip' },
+      top: { in: 'body', name: 'options.top' },
+    },
+    response: {
+      items: 'data',
+      totalRecords: 'metadata.totalRecords',
+      numRecords: 'metadata.numRecords',
+      skip: 'metadata.skip',
+    },
+    stop: 'total-reached',
+    description: 'Repeat the query with options.skip advanced by metadata.numRecords until metadata.totalRecords is reached. QuickBase may return fewer records than options.top.',
+  },
+  runReport: {
+    style: 'offset',
+    request: {
+      skip: { in: 'query', name: 'skip' },
+      top: { in: 'query', name: 'top' },
+    },
+    response: {
+      items: 'data',
+      totalRecords: 'metadata.totalRecords',
+      numRecords: 'metadata.numRecords',
+      skip: 'metadata.skip',
+    },
+    stop: 'total-reached',
+    description: 'Advance the skip query parameter by metadata.numRecords until metadata.totalRecords is reached.',
+  },
+  getRelationships: {
+    style: 'offset',
+    request: {
+      skip: { in: 'query', name: 'skip' },
+    },
+    response: {
+      items: 'relationships',
+      totalRecords: 'metadata.totalRelationships',
+      numRecords: 'metadata.numRelationships',
+      skip: 'metadata.skip',
+    },
+    stop: 'total-reached',
+    description: 'Advance the skip query parameter by metadata.numRelationships until metadata.totalRelationships is reached.',
+  },
+  getFieldsUsage: {
+    style: 'offset',
+    request: {
+      skip: { in: 'query', name: 'skip' },
+      top: { in: 'query', name: 'top' },
+    },
+    response: {},
+    stop: 'empty-page',
+    description: 'The response is a bare array with no totals; advance skip by the number of items returned until a page is empty.',
+  },
+  getUsers: {
+    style: 'token',
+    request: {
+      nextPageToken: { in: 'body', name: 'nextPageToken' },
+    },
+    response: {
+      items: 'users',
+      nextPageToken: 'metadata.nextPageToken',
+    },
+    stop: 'no-token',
+    description: 'Send metadata.nextPageToken from the previous page as nextPageToken in the request body until it comes back empty.',
+  },
+};
@@ -0,0 +1,75 @@
+/**
+ * Partial success catalog
+ *
+ * Operations that process a batch of items in one call and answer 207 Multi-Status
+ * when only some of them succeed. The source spec repeats each 207 body inline; the
+ * patch step points the 200 and 207 bodies at one shared result schema and adds
+ * `x-qb-partial-success`, so SDKs can generate one partial-failure error type that
+ * carries what succeeded alongside what failed.
+ */
+
+/** Shared schemas the partial-success bodies reference */
+export const PARTIAL_SUCCESS_SCHEMAS: Record<string, Record<string, unknown>> = {
+  LineErrors: {
+    type: 'object',
+    description: 'Errors for the items that were not processed, keyed by the 1-based position of the item in the request (e.g. "2" is the second record in `data`). Each value lists the errors for that item.',
+    additionalProperties: {
+      type: 'array',
+      items: { type: 'string' },
+    },
+  },
+};
+
+export interface PartialSuccess {
+  /**
+   * - line-errors: failed items are reported in a LineErrors map keyed by their
+   *   1-based index in the request; the rest were processed
+   * - item-results: the response lists succeeded and failed items separately
+   */
+  style: 'line-errors' | 'item-results';
+  /** Component shared by the 200 and 207 bodies; built from the 200 body when that is inline */
+  schema: string;
+  /** Dotted path into the request body of the items processed; omitted when the request body is the array itself */
+  request: {
+    items?: string;
+  };
+  /** Dotted paths into the response body */
+  response: {
+    lineErrors?: string;
+    success?: string;
+    failure?: string;
+  };
+  description: string;
+}
+
+/** Operations that can partially succeed, keyed by operationId */
+export const PARTIAL_SUCCESS: Record<string, PartialSuccess> = {
+  upsert: {
+    style: 'line-errors',
+    schema: 'UpsertResult',
+    request: { items: 'data' },
+    response: { lineErrors: 'metadata.lineErrors' },
+    description: 'Records listed in metadata.lineErrors were not saved; every other record in data was created, updated or left unchanged (metadata.createdRecordIds, updatedRecordIds, unchangedRecordIds).',
+  },
+  addTrustees: {
+    style: 'item-results',
+    schema: 'TrusteesResult',
+    request: {},
+    response: { success: 'success', failure: 'failure' },
+    description: 'Trustees in success were added; each entry in failure pairs a trustee from the request with its error.',
+  },
+  removeTrustees: {
+    style: 'item-results',
+    schema: 'TrusteesResult',
+    request: {},
+    response: { success: 'success', failure: 'failure' },
+    description: 'Trustees in success were removed; each entry in failure pairs a trustee from the request with its error.',
+  },
+  updateTrustees: {
+    style: 'item-results',
+    schema: 'TrusteeUpdatesResult',
+    request: {},
+    response: { success: 'success', failure: 'failure' },
+    description: 'Trustees in success had their role changed; each entry in failure pairs a trustee from the request with its error.',
+  },
+};
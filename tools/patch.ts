@@ -2,14 +2,50 @@
  * Patch the OpenAPI spec with our fixes and overrides
  *
  * Applies corrections to the official QuickBase spec:
- * - Remove internal headers (QB-Realm-Hostname, Authorization, User-Agent)
+ * - Remove internal headers (Authorization, User-Agent, Content-Type)
+ * - Keep or strip the shared QB-Realm-Hostname parameter, per SDK
+ * - Set per-operation security requirements from overrides/security.yaml
+ * - Attach shared error responses (ErrorResponse) to every operation
+ * - Apply declarative fixes from overrides/patches.yaml
  * - Fix incorrect schema types
+ * - Mark `where` query strings with format qb-query
+ * - Pull domain enums into named components (FieldType, ReportType, ...)
+ * - Discriminate report definitions by type (Report union)
+ * - Type QBL YAML documents and the QBL-Version header (Solutions)
+ * - Share one result schema between 200 and 207 bodies (x-qb-partial-success)
+ * - Turn constraints stated in descriptions into default/minimum/maximum/maxItems/maxLength
+ * - Describe paginated operations (x-qb-pagination)
+ * - Describe long-running operations and how to poll them (x-qb-async)
  * - Add missing descriptions
  * - Correct response types (arrays vs objects)
  */
 
-import { readJson, writeJson, PATHS, log, runTask } from './common.js';
-import { join, basename } from 'path';
+import {
+  readJson,
+  writeJson,
+  PATHS,
+  log,
+  runTask,
+  REALM_PARAMETER,
+  OperationIndex,
+  findFixtureFiles,
+  findOperation,
+  loadFixture,
+  parseFixturePath,
+} from './common.js';
+import { toOpenAPI31, stripRefSiblings } from './openapi31.js';
+import { FIELD_VALUE_SCHEMAS } from './field-values.js';
+import { PAGINATION, Pagination } from './pagination.js';
+import { ASYNC_OPERATIONS, AsyncOperation } from './async-operations.js';
+import { ENUMS } from './enums.js';
+import { REPORT_TYPES } from './report-types.js';
+import { FIELD_TYPES, UNTYPED_FIELD_PROPERTIES, getFieldTypeProperties } from './field-types.js';
+import { QBL_OPERATIONS, QBL_SCHEMAS } from './qbl.js';
+import { PARTIAL_SUCCESS, PARTIAL_SUCCESS_SCHEMAS, PartialSuccess } from './partial-success.js';
+import { mineConstraints, ConstraintKeyword } from './constraints.js';
+import { ERROR_SCHEMAS, ERROR_HEADERS, ERROR_HEADER_NAMES, ERROR_RESPONSES } from './error-responses.js';
+import { applyDeclarativePatches, DeclarativePatch, PatchResult } from './declarative-patches.js';
+import { join, basename, relative } from 'path';
 import { existsSync, readdirSync } from 'fs';
 
 interface OpenAPISpec {
@@ -19,6 +55,8 @@ interface OpenAPISpec {
   components: {
     schemas?: Record<string, Schema>;
     parameters?: Record<string, unknown>;
+    responses?: Record<string, Response>;
+    headers?: Record<string, unknown>;
     securitySchemes?: Record<string, unknown>;
   };
 }
@@ -36,10 +74,15 @@ interface Operation {
   operationId: string;
   summary?: string;
   description?: string;
-  parameters?: Parameter[];
+  parameters?: Array<Parameter | ParameterRef>;
   requestBody?: RequestBody;
   responses?: Record<string, Response>;
   tags?: string[];
+  security?: SecurityRequirement[];
+  'x-qb-requires-realm'?: boolean;
+  'x-qb-pagination'?: Pagination;
+  'x-qb-partial-success'?: PartialSuccess;
+  'x-qb-async'?: AsyncOperation;
 }
 
 interface Parameter {
@@ -48,21 +91,33 @@ interface Parameter {
   description?: string;
   required?: boolean;
   schema?: Schema;
+  example?: unknown;
+}
+
+/** Scheme name -> scopes; every scheme in a requirement must be satisfied */
+type SecurityRequirement = Record<string, string[]>;
+
+interface ParameterRef {
+  $ref: string;
+  description?: string;
 }
 
 interface RequestBody {
   description?: string;
   required?: boolean;
-  content?: Record<string, { schema: Schema }>;
+  content?: Record<string, { schema: Schema; example?: unknown; examples?: Record<string, unknown> }>;
 }
 
 interface Response {
-  description: string;
-  content?: Record<string, { schema: Schema }>;
+  description?: string;
+  $ref?: string;
+  headers?: Record<string, { $ref: string }>;
+  content?: Record<string, { schema: Schema; example?: unknown }>;
 }
 
 interface Schema {
   type?: string;
+  format?: string;
   $ref?: string;
   items?: Schema;
   properties?: Record<string, Schema>;
@@ -71,67 +126,70 @@ interface Schema {
   description?: string;
   example?: unknown;
   enum?: (string | number | boolean)[];
+  default?: unknown;
+  readOnly?: boolean;
+  minimum?: number;
+  maximum?: number;
+  maxItems?: number;
+  maxLength?: number;
   allOf?: Schema[];
   oneOf?: Schema[];
   anyOf?: Schema[];
+  discriminator?: { propertyName: string; mapping?: Record<string, string> };
 }
 
-/** Headers that should be removed (handled by SDK internally) */
+/** overrides/naming.yaml: names for extracted inline schemas */
+interface NamingPolicy {
+  /** JSON Pointer of an inline schema (in the spec before extraction) -> component name */
+  names?: Record<string, string>;
+  /** Old component name -> current name; the old name stays as an alias */
+  aliases?: Record<string, string>;
+  /** Name of a merged component -> the schema names (or <OperationId>Response) it replaces */
+  merged?: Record<string, string[]>;
+}
+
+/** Headers that should be removed (handled by SDK internally or by security schemes) */
 const INTERNAL_HEADERS = [
-  'QB-Realm-Hostname',
   'Authorization',
+  'QB-App-Token',
   'User-Agent',
   'Content-Type',
 ];
 
-/** Operations that have record data arrays that need proper typing */
-const RECORD_DATA_OPERATIONS = [
-  'upsert',
-  'runQuery',
-  'runReport',
-];
-
-/** Operations that require a request body (QuickBase spec incorrectly marks these as optional) */
-const REQUIRED_BODY_OPERATIONS = [
-  'upsert',
-  'deleteRecords',
-  'runQuery',
-  'runFormula',
-  'createApp',
-  'deleteApp',
-  'copyApp',
-  'createTable',
-  'createField',
-  'deleteFields',
-  'createRelationship',
-  'audit',
-  'exchangeSsoToken',
-  'cloneUserToken',
-  'transferUserToken',
-  'denyUsers',
-  'denyUsersAndGroups',
-  'undenyUsers',
-  'addMembersToGroup',
-  'removeMembersFromGroup',
-  'addManagersToGroup',
-  'removeManagersFromGroup',
-  'addSubgroupsToGroup',
-  'removeSubgroupsFromGroup',
-  'createSolution',
-  'changesetSolution',
-];
-
 /**
  * Remove internal headers from operation parameters
  */
 function removeInternalHeaders(operation: Operation): void {
   if (operation.parameters) {
     operation.parameters = operation.parameters.filter(
-      (p) => p.in !== 'header' || !INTERNAL_HEADERS.includes(p.name)
+      (p) => '$ref' in p || p.in !== 'header' || !INTERNAL_HEADERS.includes(p.name)
     );
   }
 }
 
+/**
+ * Remove the shared realm header parameter from every operation.
+ * The `x-qb-requires-realm` marker and the component stay, so SDKs that set the
+ * header themselves still know which calls need a realm.
+ */
+function stripRealmHeader(spec: OpenAPISpec): void {
+  const ref = `#/components/parameters/${REALM_PARAMETER}`;
+  let stripped = 0;
+
+  for (const pathItem of Object.values(spec.paths)) {
+    for (const method of ['get', 'post', 'put', 'delete', 'patch'] as const) {
+      const operation = pathItem[method];
+      if (!operation?.parameters) continue;
+
+      const before = operation.parameters.length;
+      operation.parameters = operation.parameters.filter((p) => !('$ref' in p) || p.$ref !== ref);
+      stripped += before - operation.parameters.length;
+    }
+  }
+
+  log('info', `Stripped ${REALM_PARAMETER} from ${stripped} operations`);
+}
+
 /**
  * Normalize non-standard response codes to valid HTTP status codes
  * QuickBase spec uses patterns like "401/403" and "4xx/5xx" which aren't valid
@@ -181,46 +239,30 @@ function patchOperation(operation: Operation, path: string, method: string): voi
     const methodPrefix = method === 'get' ? 'get' : method === 'post' ? 'create' : method;
     operation.operationId = methodPrefix + baseName.charAt(0).toUpperCase() + baseName.slice(1);
   }
-
-  // Fix incorrectly optional request bodies
-  if (
-    operation.requestBody &&
-    REQUIRED_BODY_OPERATIONS.includes(operation.operationId)
-  ) {
-    operation.requestBody.required = true;
-  }
 }
 
 /**
- * Add QuickbaseRecord and FieldValue schemas for properly typed record data
+ * Add QuickbaseRecord, FieldValue and the per-field-type value schemas for properly typed record data
  */
 function addRecordSchemas(spec: OpenAPISpec): void {
   if (!spec.components.schemas) {
     spec.components.schemas = {};
   }
 
+  // Add the value catalog (TextValue, UserValue, FileAttachmentValue, ...)
+  for (const [name, schema] of Object.entries(FIELD_VALUE_SCHEMAS)) {
+    spec.components.schemas[name] = structuredClone(schema) as Schema;
+  }
+
   // Add FieldValue schema
+  // anyOf rather than oneOf: several value schemas are plain strings
   spec.components.schemas['FieldValue'] = {
     type: 'object',
-    description: 'A field value in a QuickBase record. The value type depends on the field type.',
+    description: 'A field value in a QuickBase record. The value schema depends on the field type; each *Value schema lists the field types it applies to in x-qb-field-types.',
     properties: {
       value: {
-        description: 'The field value. Type depends on field type: string (text, email, URL, date), number (numeric fields), boolean (checkbox), string[] (multi-select), or object[] (file attachments).',
-        oneOf: [
-          { type: 'string' },
-          { type: 'number' },
-          { type: 'boolean' },
-          { type: 'array', items: { type: 'string' } },
-          {
-            type: 'array',
-            items: {
-              type: 'object',
-              properties: {
-                id: { type: 'string', description: 'File attachment ID' },
-              },
-            },
-          },
-        ],
+        description: 'The field value, typed by the field type.',
+        anyOf: Object.keys(FIELD_VALUE_SCHEMAS).map((name) => ({ $ref: `#/components/schemas/${name}` })),
       },
     },
     required: ['value'],
@@ -229,46 +271,100 @@ function addRecordSchemas(spec: OpenAPISpec): void {
   // Add QuickbaseRecord schema
   spec.components.schemas['QuickbaseRecord'] = {
     type: 'object',
-    description: 'A QuickBase record where keys are field IDs (as strings) and values are FieldValue objects.',
+    description: 'A QuickBase record. Keys are numeric field IDs as strings (e.g. "6"), values are FieldValue objects.',
     additionalProperties: {
       $ref: '#/components/schemas/FieldValue',
     },
+    example: {
+      '6': { value: 'Andre Harris' },
+      '7': { value: 10 },
+    },
   };
 
-  log('info', 'Added FieldValue and QuickbaseRecord schemas');
+  log('info', `Added FieldValue, QuickbaseRecord and ${Object.keys(FIELD_VALUE_SCHEMAS).length} field value schemas`);
 }
 
 /**
- * Patch data arrays to use QuickbaseRecord type
+ * Build the headers map of an error response
  */
-function patchRecordDataArrays(spec: OpenAPISpec): void {
-  for (const [path, pathItem] of Object.entries(spec.paths)) {
+function errorResponseHeaders(retryAfter?: boolean): Record<string, { $ref: string }> {
+  const names = retryAfter ? ['QbApiRay', 'RetryAfter'] : ['QbApiRay'];
+  return Object.fromEntries(
+    names.map((name) => [ERROR_HEADER_NAMES[name], { $ref: `#/components/headers/${name}` }])
+  );
+}
+
+/**
+ * Add ErrorResponse, the qb-api-ray/Retry-After headers and one response component
+ * per error status, and attach them to every operation (see tools/error-responses.ts).
+ *
+ * Error responses the source spec already documents keep their operation-specific
+ * description and example, but get the shared body schema and headers.
+ * overrides/errors.yaml maps operationIds to another body schema (e.g. QBLErrorResponse).
+ */
+function addErrorResponses(spec: OpenAPISpec, errorOverrides: Record<string, string> = {}): void {
+  spec.components.schemas = spec.components.schemas || {};
+  spec.components.headers = spec.components.headers || {};
+  spec.components.responses = spec.components.responses || {};
+
+  for (const [name, schema] of Object.entries(ERROR_SCHEMAS)) {
+    spec.components.schemas[name] = structuredClone(schema) as Schema;
+  }
+  for (const [name, header] of Object.entries(ERROR_HEADERS)) {
+    spec.components.headers[name] = structuredClone(header);
+  }
+
+  const errorBody = (schemaName: string): Response['content'] => ({
+    'application/json': { schema: { $ref: `#/components/schemas/${schemaName}` } },
+  });
+
+  for (const { name, description, retryAfter } of Object.values(ERROR_RESPONSES)) {
+    spec.components.responses[name] = {
+      description,
+      headers: errorResponseHeaders(retryAfter),
+      content: errorBody('ErrorResponse'),
+    };
+  }
+
+  const remaining = new Set(Object.keys(errorOverrides));
+  let documented = 0;
+
+  for (const pathItem of Object.values(spec.paths)) {
     for (const method of ['get', 'post', 'put', 'delete', 'patch'] as const) {
       const operation = pathItem[method];
-      if (!operation || !RECORD_DATA_OPERATIONS.includes(operation.operationId)) {
-        continue;
-      }
+      if (!operation) continue;
+
+      const schemaName = errorOverrides[operation.operationId] || 'ErrorResponse';
+      remaining.delete(operation.operationId);
+      const responses = operation.responses = operation.responses || {};
+
+      // Upstream-documented errors ("default" is the normalized 4xx/5xx)
+      for (const [code, response] of Object.entries(responses)) {
+        if (!(code in ERROR_RESPONSES) && code !== 'default') continue;
+        if (response.$ref) continue;
 
-      // Patch request body data array (for upsert)
-      if (operation.requestBody?.content?.['application/json']?.schema?.properties?.data) {
-        const dataSchema = operation.requestBody.content['application/json'].schema.properties.data;
-        if (dataSchema.type === 'array' && !dataSchema.items) {
-          dataSchema.items = { $ref: '#/components/schemas/QuickbaseRecord' };
-          log('info', `Patched ${operation.operationId} request data array`);
+        const example = response.content?.['application/json']?.schema?.example;
+        response.headers = errorResponseHeaders(ERROR_RESPONSES[code]?.retryAfter);
+        response.content = errorBody(schemaName);
+        if (example !== undefined) {
+          response.content!['application/json'].example = example;
         }
+        documented++;
       }
 
-      // Patch response data array (for runQuery, runReport, upsert)
-      const response = operation.responses?.['200'];
-      if (response?.content?.['application/json']?.schema?.properties?.data) {
-        const dataSchema = response.content['application/json'].schema.properties.data;
-        if (dataSchema.type === 'array' && !dataSchema.items) {
-          dataSchema.items = { $ref: '#/components/schemas/QuickbaseRecord' };
-          log('info', `Patched ${operation.operationId} response data array`);
-        }
+      for (const [status, { name, description, retryAfter }] of Object.entries(ERROR_RESPONSES)) {
+        if (responses[status]) continue;
+        responses[status] = schemaName === 'ErrorResponse'
+          ? { $ref: `#/components/responses/${name}` }
+          : { description, headers: errorResponseHeaders(retryAfter), content: errorBody(schemaName) };
       }
     }
   }
+
+  for (const operationId of remaining) {
+    log('warn', `Error response override for unknown operation: ${operationId}`);
+  }
+  log('info', `Added ${Object.keys(ERROR_RESPONSES).length} error responses to every operation (${documented} upstream error responses retyped)`);
 }
 
 /**
@@ -315,11 +411,52 @@ function addSortFieldSchema(spec: OpenAPISpec): void {
   log('info', 'Added SortField and SortByUnion schemas');
 }
 
+/**
+ * Outcome of one built-in fix at one location, reported beside the declarative
+ * patches in output/patch-report.json
+ */
+interface BuiltinFixResult {
+  fix: string;
+  pointer: string;
+  status: 'applied' | 'failed';
+  reason?: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/** Built-in fixes; each must match at least once, or it is reported as failed */
+const BUILTIN_FIXES = [
+  'int type',
+  'select items',
+  'choicesLuid items',
+  'compositeFields items',
+  'sortBy union',
+  'lineErrors map',
+  'ownerId type',
+];
+
+/**
+ * Record a failure for each built-in fix that matched nothing: the source spec
+ * no longer has the defect it works around
+ */
+function checkBuiltinFixes(results: BuiltinFixResult[]): void {
+  for (const fix of BUILTIN_FIXES) {
+    if (!results.some((result) => result.fix === fix)) {
+      results.push({
+        fix,
+        pointer: '',
+        status: 'failed',
+        reason: 'matches nothing; QuickBase may have fixed it upstream, remove the fix',
+      });
+    }
+  }
+}
+
 /**
  * Fix invalid type values (e.g., "int" -> "integer")
  * QuickBase's spec incorrectly uses "int" which is not valid JSON Schema
  */
-function fixInvalidTypes(obj: unknown, path: string = ''): void {
+function fixInvalidTypes(obj: unknown, pointer: string, results: BuiltinFixResult[]): void {
   if (!obj || typeof obj !== 'object') return;
 
   const record = obj as Record<string, unknown>;
@@ -327,90 +464,120 @@ function fixInvalidTypes(obj: unknown, path: string = ''): void {
   // Fix "type": "int" -> "type": "integer"
   if (record.type === 'int') {
     record.type = 'integer';
-    log('info', `Fixed type "int" -> "integer" at ${path}`);
+    results.push({ fix: 'int type', pointer: `${pointer}/type`, status: 'applied', before: 'int', after: 'integer' });
   }
 
   // Recurse into nested objects
   for (const [key, value] of Object.entries(record)) {
     if (value && typeof value === 'object') {
-      fixInvalidTypes(value, path ? `${path}.${key}` : key);
+      fixInvalidTypes(value, `${pointer}/${toPointerToken(key)}`, results);
     }
   }
 }
 
+/** Items of arrays the source spec leaves untyped, by property name */
+const ARRAY_ITEMS: Record<string, Schema> = {
+  select: { type: 'integer' },
+  choicesLuid: { type: 'string' },
+  // Could be field IDs or objects - allow both
+  compositeFields: { oneOf: [{ type: 'integer' }, { type: 'object' }] },
+};
+
 /**
  * Recursively patch array schemas that are missing items
  */
-function patchArraySchemas(obj: unknown, path: string = ''): void {
+function patchArraySchemas(obj: unknown, pointer: string, results: BuiltinFixResult[]): void {
   if (!obj || typeof obj !== 'object') return;
 
   const record = obj as Record<string, unknown>;
+  const key = pointer.split('/').pop() || '';
 
-  // Check if this is a schema with type: array and no items
-  if (record.type === 'array' && !record.items) {
-    const propName = path.split('.').pop() || '';
-
-    // Patch based on property name
-    if (propName === 'select' || propName === 'fieldsToReturn') {
-      record.items = { type: 'integer' };
-      log('info', `Patched ${path} to integer[]`);
-    } else if (propName === 'choicesLuid') {
-      record.items = { type: 'string' };
-      log('info', `Patched ${path} to string[]`);
-    } else if (propName === 'compositeFields') {
-      // Could be field IDs or objects - allow both
-      record.items = { oneOf: [{ type: 'integer' }, { type: 'object' }] };
-      log('info', `Patched ${path} to (number | object)[]`);
-    }
+  // Patch based on property name
+  if (record.type === 'array' && !record.items && ARRAY_ITEMS[key]) {
+    record.items = structuredClone(ARRAY_ITEMS[key]);
+    results.push({ fix: `${key} items`, pointer: `${pointer}/items`, status: 'applied', after: record.items });
   }
 
-  // Handle sortBy with x-amf-union (non-standard OpenAPI extension)
+  // Handle sortBy union (converted from x-amf-union by convert.ts)
   // Use a $ref to the SortByUnion component schema so oapi-codegen generates proper helper methods
-  if (record['x-amf-union'] && path.endsWith('.sortBy')) {
-    delete record['x-amf-union'];
-    // Keep description if present, but replace with $ref
-    const description = record.description;
+  if (Array.isArray(record.oneOf) && key === 'sortBy') {
+    const before = structuredClone(record);
     // Clear all existing properties except description
-    for (const key of Object.keys(record)) {
-      if (key !== 'description') {
-        delete record[key];
+    for (const name of Object.keys(record)) {
+      if (name !== 'description') {
+        delete record[name];
       }
     }
+    // The description stays as a $ref sibling for the 3.1 output;
+    // stripRefSiblings removes it from the 3.0 output, where siblings are ignored
     record.$ref = '#/components/schemas/SortByUnion';
-    if (description) {
-      // Note: $ref with sibling properties is technically not valid in OpenAPI 3.0
-      // but oapi-codegen handles it. In 3.1 it's supported via allOf wrapper.
-      // For now we just use $ref and let the schema description carry through.
-      delete record.description;
-    }
-    log('info', `Patched ${path} sortBy to use SortByUnion $ref`);
-  }
-
-  // Handle where with x-amf-union (can be query string OR array of record IDs)
-  if (record['x-amf-union'] && path.endsWith('.where')) {
-    const unionTypes = record['x-amf-union'] as Schema[];
-    delete record['x-amf-union'];
-    record.oneOf = unionTypes;
-    log('info', `Patched ${path} where union type`);
+    results.push({ fix: 'sortBy union', pointer, status: 'applied', before, after: { $ref: record.$ref } });
   }
 
-  // Handle lineErrors - should be Record<string, string[]>
-  if (path.endsWith('.lineErrors') && record.type === 'object' && record.additionalProperties === true) {
-    record.additionalProperties = {
-      type: 'array',
-      items: { type: 'string' },
-    };
-    log('info', `Patched ${path} to Record<string, string[]>`);
+  // Handle lineErrors - use the shared LineErrors map (Record<string, string[]>)
+  if (key === 'lineErrors' && record.type === 'object' && record.additionalProperties === true) {
+    const before = structuredClone(record);
+    for (const name of Object.keys(record)) {
+      if (name !== 'description') {
+        delete record[name];
+      }
+    }
+    record.$ref = '#/components/schemas/LineErrors';
+    results.push({ fix: 'lineErrors map', pointer, status: 'applied', before, after: { $ref: record.$ref } });
   }
 
   // Recurse into nested objects
-  for (const [key, value] of Object.entries(record)) {
+  for (const [name, value] of Object.entries(record)) {
     if (value && typeof value === 'object') {
-      patchArraySchemas(value, path ? `${path}.${key}` : key);
+      patchArraySchemas(value, `${pointer}/${toPointerToken(name)}`, results);
     }
   }
 }
 
+/**
+ * Mark string `where` filters as QuickBase query language (`format: qb-query`),
+ * following $refs such as WhereUnion. Array-shaped `where` filters (platform
+ * analytics) are left alone. See tools/query-language.ts for the grammar.
+ */
+function markQueryStrings(spec: OpenAPISpec): void {
+  let marked = 0;
+
+  const mark = (schema: Schema | undefined): void => {
+    if (!schema) return;
+    if (schema.$ref) {
+      const name = schema.$ref.split('/').pop() || '';
+      mark(spec.components.schemas?.[name]);
+      return;
+    }
+    if (schema.type === 'string' && schema.format !== 'qb-query') {
+      schema.format = 'qb-query';
+      marked++;
+    }
+    for (const member of schema.oneOf || schema.anyOf || []) {
+      mark(member);
+    }
+  };
+
+  const walk = (obj: unknown): void => {
+    if (!obj || typeof obj !== 'object') return;
+
+    const record = obj as Record<string, unknown>;
+    const properties = record.properties as Record<string, Schema> | undefined;
+    if (properties && typeof properties.where === 'object') {
+      mark(properties.where);
+    }
+
+    for (const value of Object.values(record)) {
+      walk(value);
+    }
+  };
+
+  walk(spec.paths);
+  walk(spec.components.schemas);
+
+  log('info', `Marked ${marked} where schemas as qb-query`);
+}
+
 /**
  * Add OwnerId schema component for properly typed owner IDs.
  * QuickBase API sometimes returns ownerId as a string even though
@@ -436,27 +603,28 @@ function addOwnerIdSchema(spec: OpenAPISpec): void {
  * QuickBase API sometimes returns ownerId as a string even though
  * the spec says integer.
  */
-function fixOwnerIdType(obj: unknown, path: string = ''): void {
+function fixOwnerIdType(obj: unknown, pointer: string, results: BuiltinFixResult[]): void {
   if (!obj || typeof obj !== 'object') return;
 
   const record = obj as Record<string, unknown>;
 
   // Check if this is an ownerId property definition with type: integer
-  if (record.type === 'integer' && path.endsWith('.ownerId')) {
+  if (record.type === 'integer' && pointer.endsWith('/ownerId')) {
+    const before = structuredClone(record);
     // Replace with $ref to OwnerId component schema
     // Clear all existing properties
     for (const key of Object.keys(record)) {
       delete record[key];
     }
     record.$ref = '#/components/schemas/OwnerId';
-    log('info', `Fixed ownerId type at ${path} to use OwnerId $ref`);
+    results.push({ fix: 'ownerId type', pointer, status: 'applied', before, after: { $ref: record.$ref } });
     return;
   }
 
   // Recurse into nested objects
   for (const [key, value] of Object.entries(record)) {
     if (value && typeof value === 'object') {
-      fixOwnerIdType(value, path ? `${path}.${key}` : key);
+      fixOwnerIdType(value, `${pointer}/${toPointerToken(key)}`, results);
     }
   }
 }
@@ -464,7 +632,7 @@ function fixOwnerIdType(obj: unknown, path: string = ''): void {
 /**
  * Fix known schema issues
  */
-function patchSchemas(spec: OpenAPISpec): void {
+function patchSchemas(spec: OpenAPISpec, results: BuiltinFixResult[]): void {
   const schemas = spec.components.schemas || {};
 
   // Fix common issues
@@ -482,62 +650,10 @@ function patchSchemas(spec: OpenAPISpec): void {
   }
 
   // Fix ownerId fields in all paths (inline schemas in responses)
-  fixOwnerIdType(spec.paths, 'paths');
+  fixOwnerIdType(spec.paths, '/paths', results);
 
   // Fix ownerId fields in component schemas
-  fixOwnerIdType(spec.components, 'components');
-}
-
-/**
- * Apply endpoint-specific patches
- */
-function applyEndpointPatches(spec: OpenAPISpec): void {
-  const patches: Record<string, (op: Operation) => void> = {
-    // getFields returns an array, not wrapped in an object
-    getFields: (op) => {
-      // This should be an array of Field objects
-      if (op.responses?.['200']?.content?.['application/json']?.schema) {
-        const schema = op.responses['200'].content['application/json'].schema;
-        // If it's not already an array, wrap it
-        if (schema.type !== 'array' && !schema.$ref?.includes('Array')) {
-          log('info', 'Patching getFields response to array');
-        }
-      }
-    },
-
-    // getAppTables returns an array
-    getAppTables: (op) => {
-      // Similar fix
-    },
-
-    // runQuery data field should be an array of record objects, not strings
-    runQuery: (op) => {
-      // The data field in the response is often incorrectly typed
-    },
-
-    // platformAnalyticEventSummaries has 'totals' incorrectly required in results items
-    // The example shows totals at root level, not inside each result item
-    platformAnalyticEventSummaries: (op) => {
-      const schema = op.responses?.['200']?.content?.['application/json']?.schema;
-      if (schema?.properties?.results?.items?.required) {
-        const required = schema.properties.results.items.required as string[];
-        const idx = required.indexOf('totals');
-        if (idx !== -1) {
-          required.splice(idx, 1);
-          log('info', 'Removed totals from platformAnalyticEventSummaries results[].required');
-        }
-      }
-    },
-  };
-
-  for (const [path, pathItem] of Object.entries(spec.paths)) {
-    for (const method of ['get', 'post', 'put', 'delete', 'patch'] as const) {
-      const operation = pathItem[method];
-      if (operation && operation.operationId && patches[operation.operationId]) {
-        patches[operation.operationId](operation);
-      }
-    }
-  }
+  fixOwnerIdType(spec.components, '/components', results);
 }
 
 /**
@@ -546,7 +662,10 @@ function applyEndpointPatches(spec: OpenAPISpec): void {
 async function loadOverrides(): Promise<{
   schemas?: Record<string, Schema>;
   parameters?: Record<string, unknown>;
-  patches?: Record<string, unknown>;
+  patches?: DeclarativePatch[];
+  security?: Record<string, SecurityRequirement[]>;
+  errors?: Record<string, string>;
+  naming?: NamingPolicy;
 }> {
   const overridesDir = PATHS.overrides;
   const overrides: ReturnType<typeof loadOverrides> extends Promise<infer T> ? T : never = {};
@@ -578,12 +697,22 @@ async function loadOverrides(): Promise<{
       } else if (name === 'parameters') {
         overrides.parameters = content as Record<string, unknown>;
       } else if (name === 'patches') {
-        overrides.patches = content as Record<string, unknown>;
+        if (!Array.isArray(content)) {
+          throw new Error('expected a list of patches');
+        }
+        overrides.patches = content as DeclarativePatch[];
+      } else if (name === 'security') {
+        overrides.security = content as Record<string, SecurityRequirement[]>;
+      } else if (name === 'errors') {
+        overrides.errors = content as Record<string, string>;
+      } else if (name === 'naming') {
+        overrides.naming = content as NamingPolicy;
       }
 
       log('info', `Loaded override: ${file}`);
     } catch (error) {
-      log('warn', `Failed to load override ${file}: ${error}`);
+      // A broken override file would silently drop its fixes, so it fails the build
+      throw new Error(`Failed to load override ${file}: ${(error as Error).message}`);
     }
   }
 
@@ -599,13 +728,20 @@ async function loadOverrides(): Promise<{
  * Into:
  *   permissions: { type: array, items: { $ref: '#/components/schemas/FieldPermission' } }
  * And adds FieldPermission to components/schemas.
+ *
+ * JSON request bodies are extracted too: an object body becomes `<OperationId>Request`,
+ * an array body's items `<OperationId>RequestItem`.
  */
-function extractInlineSchemas(spec: OpenAPISpec): void {
+function extractInlineSchemas(spec: OpenAPISpec, naming: NamingPolicy = {}): Record<string, string> {
   if (!spec.components.schemas) {
     spec.components.schemas = {};
   }
 
   const extractedSchemas: Record<string, Schema> = {};
+  // JSON Pointer of each extracted inline schema -> its component name
+  const extractedNames: Record<string, string> = {};
+  const collisions: string[] = [];
+  const unusedNames = new Set(Object.keys(naming.names || {}));
 
   // Helper to generate a schema name from context
   function generateSchemaName(parentName: string, fieldName: string): string {
@@ -622,12 +758,26 @@ function extractInlineSchemas(spec: OpenAPISpec): void {
            !schema.$ref;
   }
 
+  // Pick the component name for the schema at pointer: the naming policy wins over the
+  // generated name. Returns undefined (and records a collision) if the name is taken.
+  function claimSchemaName(pointer: string, generatedName: string): string | undefined {
+    const name = naming.names?.[pointer] ?? generatedName;
+    unusedNames.delete(pointer);
+
+    if (extractedSchemas[name] || spec.components.schemas![name]) {
+      const owner = Object.entries(extractedNames).find(([, n]) => n === name)?.[0] ?? `#/components/schemas/${name}`;
+      collisions.push(`${name}: ${pointer} collides with ${owner}`);
+      return undefined;
+    }
+    extractedNames[pointer] = name;
+    return name;
+  }
+
   // Helper to extract inline schemas from array items
-  function processArrayItems(schema: Schema, parentName: string, fieldName: string): void {
+  function processArrayItems(schema: Schema, parentName: string, fieldName: string, pointer: string): void {
     if (schema.type === 'array' && schema.items && isInlineObject(schema.items)) {
-      const itemSchemaName = generateSchemaName(parentName, fieldName + 'Item');
-      // Only extract if we haven't already
-      if (!extractedSchemas[itemSchemaName] && !spec.components.schemas![itemSchemaName]) {
+      const itemSchemaName = claimSchemaName(`${pointer}/items`, generateSchemaName(parentName, fieldName + 'Item'));
+      if (itemSchemaName) {
         extractedSchemas[itemSchemaName] = { ...schema.items };
         schema.items = { $ref: `#/components/schemas/${itemSchemaName}` };
         log('info', `Extracted inline schema: ${itemSchemaName}`);
@@ -636,19 +786,21 @@ function extractInlineSchemas(spec: OpenAPISpec): void {
   }
 
   // Process properties recursively
-  function processProperties(properties: Record<string, Schema> | undefined, parentName: string): void {
+  function processProperties(properties: Record<string, Schema> | undefined, parentName: string, pointer: string): void {
     if (!properties) return;
 
     for (const [fieldName, fieldSchema] of Object.entries(properties)) {
+      const fieldPointer = `${pointer}/properties/${toPointerToken(fieldName)}`;
+
       // Handle array with inline object items
       if (fieldSchema.type === 'array' && fieldSchema.items) {
-        processArrayItems(fieldSchema, parentName, fieldName);
+        processArrayItems(fieldSchema, parentName, fieldName, fieldPointer);
       }
 
       // Handle direct inline object (not in array)
       if (isInlineObject(fieldSchema)) {
-        const schemaName = generateSchemaName(parentName, fieldName);
-        if (!extractedSchemas[schemaName] && !spec.components.schemas![schemaName]) {
+        const schemaName = claimSchemaName(fieldPointer, generateSchemaName(parentName, fieldName));
+        if (schemaName) {
           extractedSchemas[schemaName] = { ...fieldSchema };
           // Replace inline with $ref
           for (const key of Object.keys(fieldSchema)) {
@@ -661,7 +813,7 @@ function extractInlineSchemas(spec: OpenAPISpec): void {
 
       // Recurse into nested properties
       if (fieldSchema.properties) {
-        processProperties(fieldSchema.properties, generateSchemaName(parentName, fieldName));
+        processProperties(fieldSchema.properties, generateSchemaName(parentName, fieldName), fieldPointer);
       }
     }
   }
@@ -673,6 +825,7 @@ function extractInlineSchemas(spec: OpenAPISpec): void {
       if (!operation) continue;
 
       const opName = operation.operationId || '';
+      const pointer = `/paths/${toPointerToken(path)}/${method}/responses/200/content/application~1json/schema`;
 
       // Process 200 response schema
       const response = operation.responses?.['200'];
@@ -682,12 +835,12 @@ function extractInlineSchemas(spec: OpenAPISpec): void {
         // Handle array response with inline items
         if (schema.type === 'array' && schema.items && isInlineObject(schema.items)) {
           // For array responses, extract the item type
-          const itemSchemaName = `${opName.charAt(0).toUpperCase() + opName.slice(1)}Item`;
-          if (!extractedSchemas[itemSchemaName] && !spec.components.schemas![itemSchemaName]) {
+          const itemSchemaName = claimSchemaName(`${pointer}/items`, `${opName.charAt(0).toUpperCase() + opName.slice(1)}Item`);
+          if (itemSchemaName) {
             extractedSchemas[itemSchemaName] = { ...schema.items };
 
             // Process nested properties of the item
-            processProperties(schema.items.properties, itemSchemaName);
+            processProperties(schema.items.properties, itemSchemaName, `${pointer}/items`);
 
             schema.items = { $ref: `#/components/schemas/${itemSchemaName}` };
             log('info', `Extracted response item schema: ${itemSchemaName}`);
@@ -696,104 +849,1362 @@ function extractInlineSchemas(spec: OpenAPISpec): void {
 
         // Handle object response with inline properties
         if (schema.properties) {
-          processProperties(schema.properties, opName.charAt(0).toUpperCase() + opName.slice(1));
+          processProperties(schema.properties, opName.charAt(0).toUpperCase() + opName.slice(1), pointer);
+        }
+      }
+
+      // Process the JSON request body. Names derive from <OperationId>Request,
+      // so request types never take a response type's name
+      const requestMedia = operation.requestBody?.content?.['application/json'];
+      const requestSchema = requestMedia?.schema;
+      if (requestMedia && requestSchema) {
+        const requestName = `${opName.charAt(0).toUpperCase() + opName.slice(1)}Request`;
+        const requestPointer = `/paths/${toPointerToken(path)}/${method}/requestBody/content/application~1json/schema`;
+
+        if (requestSchema.type === 'array' && requestSchema.items) {
+          processArrayItems(requestSchema, requestName, '', requestPointer);
+        }
+
+        if (isInlineObject(requestSchema)) {
+          const schemaName = claimSchemaName(requestPointer, requestName);
+          if (schemaName) {
+            processProperties(requestSchema.properties, schemaName, requestPointer);
+
+            // Keep the request example next to the operation
+            const { example, ...extracted } = requestSchema;
+            if (example !== undefined && requestMedia.example === undefined && !requestMedia.examples) {
+              requestMedia.example = example;
+            }
+            extractedSchemas[schemaName] = extracted;
+            requestMedia.schema = { $ref: `#/components/schemas/${schemaName}` };
+            log('info', `Extracted request body schema: ${schemaName}`);
+          }
         }
       }
     }
   }
 
+  // Two shapes must never share a name or silently stay inline
+  if (collisions.length > 0) {
+    for (const collision of collisions) {
+      log('error', `Schema name collision: ${collision}`);
+    }
+    throw new Error(`${collisions.length} schema name collisions; add explicit names to overrides/naming.yaml`);
+  }
+
+  for (const pointer of unusedNames) {
+    log('warn', `Naming policy entry matches no inline schema: ${pointer}`);
+  }
+
   // Add all extracted schemas to components
   for (const [name, schema] of Object.entries(extractedSchemas)) {
     spec.components.schemas![name] = schema;
   }
 
   log('info', `Extracted ${Object.keys(extractedSchemas).length} inline schemas to named components`);
+  return extractedNames;
 }
 
 /**
- * Merge overrides into spec
+ * Escape a key for use in a JSON Pointer ("/records/query" -> "~1records~1query")
  */
-function mergeOverrides(
-  spec: OpenAPISpec,
-  overrides: Awaited<ReturnType<typeof loadOverrides>>
-): void {
-  // Merge schemas
-  if (overrides.schemas) {
-    spec.components.schemas = {
-      ...spec.components.schemas,
-      ...overrides.schemas,
+function toPointerToken(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Keep renamed components available under their old names, as $ref aliases
+ */
+function addSchemaAliases(spec: OpenAPISpec, aliases: Record<string, string>): void {
+  const schemas = spec.components.schemas || {};
+
+  for (const [alias, target] of Object.entries(aliases)) {
+    if (!schemas[target]) {
+      throw new Error(`Schema alias ${alias} points to unknown schema ${target}`);
+    }
+    if (schemas[alias]) {
+      throw new Error(`Schema alias ${alias} collides with an existing schema`);
+    }
+    // The description stays as a $ref sibling for the 3.1 output
+    schemas[alias] = {
+      $ref: `#/components/schemas/${target}`,
+      description: `Deprecated alias of ${target}.`,
     };
-    log('info', `Merged ${Object.keys(overrides.schemas).length} schema overrides`);
   }
 
-  // Merge parameters
-  if (overrides.parameters) {
-    spec.components.parameters = {
-      ...spec.components.parameters,
-      ...overrides.parameters,
-    };
+  if (Object.keys(aliases).length > 0) {
+    log('info', `Added ${Object.keys(aliases).length} schema aliases`);
   }
 }
 
 /**
- * Main patch function
+ * Record the extracted schema names (output/schema-names.json) and report which
+ * names changed since the previous build (output/naming-report.json). A build
+ * that changes no names keeps the report of the last one that did, so
+ * rebuilding leaves both files as committed.
  */
-export async function patch(inputPath?: string): Promise<void> {
-  await runTask('Patch OpenAPI spec', async () => {
-    // Find input file
-    const input = inputPath || join(PATHS.output, 'quickbase-openapi3.json');
+function writeNamingReport(names: Record<string, string>): void {
+  const namesPath = join(PATHS.output, 'schema-names.json');
+  const previous = existsSync(namesPath) ? readJson<Record<string, string>>(namesPath) : {};
+
+  const renamed: Array<{ pointer: string; from: string; to: string }> = [];
+  const added: Array<{ pointer: string; name: string }> = [];
+  const removed: Array<{ pointer: string; name: string }> = [];
+
+  for (const [pointer, name] of Object.entries(names)) {
+    if (!(pointer in previous)) {
+      added.push({ pointer, name });
+    } else if (previous[pointer] !== name) {
+      renamed.push({ pointer, from: previous[pointer], to: name });
+    }
+  }
+  for (const [pointer, name] of Object.entries(previous)) {
+    if (!(pointer in names)) {
+      removed.push({ pointer, name });
+    }
+  }
 
-    if (!existsSync(input)) {
-      throw new Error(`Input file not found: ${input}`);
+  const reportPath = join(PATHS.output, 'naming-report.json');
+  if (renamed.length + added.length + removed.length === 0 && existsSync(reportPath)) {
+    log('info', 'Generated type names unchanged');
+    return;
+  }
+  writeJson(namesPath, names);
+  writeJson(reportPath, { summary: { renamed: renamed.length, added: added.length, removed: removed.length }, renamed, added, removed });
+
+  for (const { from, to } of renamed) {
+    log('warn', `Generated type renamed: ${from} -> ${to} (add "${from}: ${to}" to aliases in overrides/naming.yaml to keep the old name)`);
+  }
+  for (const { name } of removed) {
+    log('warn', `Generated type removed: ${name}`);
+  }
+  log('info', `Wrote naming report to: ${reportPath}`);
+}
+
+/**
+ * Serialize a value with sorted object keys, so equal values compare equal
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Pick the most common value (first seen wins ties)
+ */
+function mostCommon<T>(values: T[]): T | undefined {
+  const counts = new Map<string, { value: T; count: number }>();
+  for (const value of values) {
+    const key = canonicalJson(value);
+    const entry = counts.get(key) ?? { value, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  let best: { value: T; count: number } | undefined;
+  for (const entry of counts.values()) {
+    if (!best || entry.count > best.count) best = entry;
+  }
+  return best?.value;
+}
+
+/**
+ * Convert a parameter name to a component name
+ * e.g. "tableId" -> "TableId", "X-QBL-Errors-As-Success" -> "XQBLErrorsAsSuccess"
+ */
+function toParameterComponentName(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/** Keywords that document a schema without changing its shape */
+const ANNOTATION_KEYS = new Set(['description', 'example', 'examples', 'title']);
+
+/**
+ * Copy a schema without annotations, sorting `required` so its order doesn't matter
+ */
+function stripAnnotations(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripAnnotations);
+  if (!value || typeof value !== 'object') return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (ANNOTATION_KEYS.has(key)) continue;
+    result[key] = key === 'required' && Array.isArray(child) ? [...child].sort() : stripAnnotations(child);
+  }
+  return result;
+}
+
+/**
+ * Drop annotations from target where the other (structurally identical) schemas disagree,
+ * so a merged schema only keeps descriptions that hold for every original
+ */
+function keepSharedAnnotations(target: Record<string, unknown>, others: unknown[]): void {
+  for (const [key, value] of Object.entries(target)) {
+    const otherValues = others.map((other) => (other as Record<string, unknown> | undefined)?.[key]);
+    if (ANNOTATION_KEYS.has(key)) {
+      if (otherValues.some((other) => canonicalJson(other) !== canonicalJson(value))) {
+        delete target[key];
+      }
+    } else if (value && typeof value === 'object') {
+      keepSharedAnnotations(value as Record<string, unknown>, otherValues);
     }
+  }
+}
 
-    // Read spec
-    const spec = readJson<OpenAPISpec>(input);
+/**
+ * Name for a group of merged schemas: the naming policy entry listing any member,
+ * else the PascalCase words the member names end with (GetAppMemoryInfo and
+ * UpdateAppMemoryInfo -> AppMemoryInfo), else the first member name
+ */
+function toMergedSchemaName(members: string[], merged: Record<string, string[]>): string {
+  const explicit = Object.entries(merged).find(([, names]) => names.some((name) => members.includes(name)));
+  if (explicit) return explicit[0];
+
+  const words = members.map((name) => name.match(/[A-Z][a-z0-9]*/g) || [name]);
+  const suffix: string[] = [];
+  for (let i = 1; words.every((w) => w.length >= i); i++) {
+    const word = words[0][words[0].length - i];
+    if (!words.every((w) => w[w.length - i] === word)) break;
+    suffix.unshift(word);
+  }
+  return suffix.length >= 2 ? suffix.join('') : [...members].sort()[0];
+}
 
-    // Load overrides
-    const overrides = await loadOverrides();
+/**
+ * Which side of the API uses each component schema: reachable from request bodies,
+ * from responses, or from both
+ */
+function schemaUsage(spec: OpenAPISpec): Map<string, 'request' | 'response' | 'both'> {
+  const usage = new Map<string, 'request' | 'response' | 'both'>();
+  const visited = new Set<string>();
+
+  const walk = (obj: unknown, side: 'request' | 'response'): void => {
+    if (!obj || typeof obj !== 'object') return;
+    const ref = (obj as { $ref?: unknown }).$ref;
+    if (typeof ref === 'string' && ref.startsWith('#/components/') && !visited.has(`${side}:${ref}`)) {
+      visited.add(`${side}:${ref}`);
+      const [, , kind, name] = ref.split('/');
+      if (kind === 'schemas') {
+        const current = usage.get(name);
+        usage.set(name, current && current !== side ? 'both' : side);
+      }
+      walk((spec.components as Record<string, Record<string, unknown> | undefined>)[kind]?.[name], side);
+    }
+    for (const value of Object.values(obj)) {
+      walk(value, side);
+    }
+  };
 
-    // Apply patches to all operations
-    for (const [path, pathItem] of Object.entries(spec.paths)) {
+  for (const pathItem of Object.values(spec.paths)) {
+    for (const method of ['get', 'post', 'put', 'delete', 'patch'] as const) {
+      walk(pathItem[method]?.requestBody, 'request');
+      walk(pathItem[method]?.responses, 'response');
+    }
+  }
+  return usage;
+}
+
+/**
+ * Merge structurally identical object schemas into one component and rewrite $refs.
+ *
+ * Candidates are object component schemas and inline 200 response bodies (labelled
+ * <OperationId>Response). Shapes are compared ignoring descriptions, examples and
+ * key order, and only between schemas used on the same side (requests, responses or
+ * both); the merged schema keeps only the annotations all copies agree on.
+ * Merged component names stay as $ref aliases. Repeats until nothing changes, since
+ * merging nested schemas can make their parents identical.
+ */
+function dedupeSchemas(spec: OpenAPISpec, merged: Record<string, string[]> = {}): void {
+  const schemas = spec.components.schemas = spec.components.schemas || {};
+  const unusedNames = new Set(Object.keys(merged));
+  let mergedCount = 0;
+  let groupCount = 0;
+
+  const isCandidate = (schema: Schema | undefined): schema is Schema =>
+    !!schema && !schema.$ref && !!schema.properties;
+
+  for (;;) {
+    // Request and response types keep distinct names even when identical,
+    // so only schemas used on the same side are merged
+    const usage = schemaUsage(spec);
+    const groups = new Map<string, Array<{ label: string; schema: Schema; media?: { schema: Schema; example?: unknown } }>>();
+    const addCandidate = (label: string, side: string, schema: Schema, media?: { schema: Schema; example?: unknown }): void => {
+      const key = `${side}:${canonicalJson(stripAnnotations(schema))}`;
+      groups.set(key, [...(groups.get(key) || []), { label, schema, media }]);
+    };
+
+    for (const [name, schema] of Object.entries(schemas)) {
+      if (isCandidate(schema)) addCandidate(name, usage.get(name) || 'unused', schema);
+    }
+    for (const pathItem of Object.values(spec.paths)) {
       for (const method of ['get', 'post', 'put', 'delete', 'patch'] as const) {
         const operation = pathItem[method];
-        if (operation) {
-          patchOperation(operation, path, method);
+        const media = operation?.responses?.['200']?.content?.['application/json'];
+        if (operation && isCandidate(media?.schema)) {
+          addCandidate(`${toParameterComponentName(operation.operationId)}Response`, 'response', media.schema, media);
         }
       }
     }
 
-    // Add QuickbaseRecord and FieldValue schemas
-    addRecordSchemas(spec);
+    const duplicates = [...groups.values()].filter((group) => group.length > 1);
+    if (duplicates.length === 0) break;
 
-    // Add SortField schema for sortBy
-    addSortFieldSchema(spec);
+    for (const group of duplicates) {
+      const labels = group.map((member) => member.label);
+      const name = toMergedSchemaName(labels, merged);
+      unusedNames.delete(name);
+      if (schemas[name] && !labels.includes(name)) {
+        throw new Error(`Merged schema name ${name} (for ${labels.join(', ')}) collides with an existing schema`);
+      }
 
-    // Add OwnerId schema for owner ID fields that can be string or int
-    addOwnerIdSchema(spec);
+      const canonical = structuredClone(group[0].schema) as Record<string, unknown>;
+      keepSharedAnnotations(canonical, group.slice(1).map((member) => member.schema));
+      schemas[name] = canonical as Schema;
+      const ref = `#/components/schemas/${name}`;
+
+      const renamed = new Map<string, string>();
+      for (const member of group) {
+        if (member.media) {
+          // Inline response body: keep its example on the media type
+          if (member.schema.example !== undefined) member.media.example = member.schema.example;
+          member.media.schema = { $ref: ref };
+        } else if (member.label !== name) {
+          renamed.set(`#/components/schemas/${member.label}`, ref);
+          schemas[member.label] = { $ref: ref, description: `Deprecated alias of ${name}.` };
+        }
+      }
+      rewriteSchemaRefs(spec, renamed);
 
-    // Patch data arrays to use QuickbaseRecord
-    patchRecordDataArrays(spec);
+      mergedCount += group.length;
+      groupCount++;
+      log('info', `Merged ${labels.join(', ')} into ${name}`);
+    }
+  }
 
-    // Fix invalid type values ("int" -> "integer")
-    fixInvalidTypes(spec.paths, 'paths');
+  for (const name of unusedNames) {
+    log('warn', `Merged schema name ${name} in overrides/naming.yaml matches no duplicate schemas`);
+  }
+  log('info', `Merged ${mergedCount} duplicate schemas into ${groupCount} components`);
+}
 
-    // Patch other array schemas (select, sortBy, choicesLuid, etc.)
-    patchArraySchemas(spec.paths, 'paths');
+/**
+ * Point $refs at merged components
+ */
+function rewriteSchemaRefs(spec: OpenAPISpec, renamed: Map<string, string>): void {
+  if (renamed.size === 0) return;
+
+  const walk = (obj: unknown): void => {
+    if (!obj || typeof obj !== 'object') return;
+    const record = obj as Record<string, unknown>;
+    if (typeof record.$ref === 'string' && renamed.has(record.$ref)) {
+      record.$ref = renamed.get(record.$ref);
+    }
+    for (const value of Object.values(record)) {
+      walk(value);
+    }
+  };
 
-    // Patch schemas
-    patchSchemas(spec);
+  walk(spec.paths);
+  walk(spec.components);
+}
 
-    // Apply endpoint-specific patches
-    applyEndpointPatches(spec);
+/**
+ * Promote parameters that several operations declare identically to
+ * components/parameters, replacing each inline copy with a $ref.
+ *
+ * Parameters are equivalent when name, location, required and schema match;
+ * descriptions and examples may differ (the most common one is kept, and a
+ * differing description stays next to the $ref, which only 3.1 honours).
+ * Same-named parameters with a conflicting schema or required flag stay inline
+ * and are reported, since they usually point at a mistake in the source spec.
+ */
+function promoteSharedParameters(spec: OpenAPISpec): void {
+  if (!spec.components.parameters) {
+    spec.components.parameters = {};
+  }
+
+  interface Occurrence {
+    operationId: string;
+    parameters: Array<Parameter | ParameterRef>;
+    index: number;
+    param: Parameter;
+  }
+
+  // "in:name" -> variant (required + schema) -> occurrences
+  const slots = new Map<string, Map<string, Occurrence[]>>();
+
+  for (const pathItem of Object.values(spec.paths)) {
+    for (const method of ['get', 'post', 'put', 'delete', 'patch'] as const) {
+      const operation = pathItem[method];
+      const parameters = operation?.parameters;
+      if (!operation || !parameters) continue;
+
+      parameters.forEach((param, index) => {
+        if ('$ref' in param) return;
+        const slot = `${param.in}:${param.name}`;
+        const variant = canonicalJson({ required: param.required ?? false, schema: param.schema });
+        const variants = slots.get(slot) ?? new Map<string, Occurrence[]>();
+        variants.set(variant, [...(variants.get(variant) ?? []), { operationId: operation.operationId, parameters, index, param }]);
+        slots.set(slot, variants);
+      });
+    }
+  }
+
+  // The most widely used variant of each slot is the canonical one
+  const canonical = new Map<string, { variant: string; occurrences: Occurrence[] }>();
+  for (const [slot, variants] of slots) {
+    let best: { variant: string; occurrences: Occurrence[] } | undefined;
+    for (const [variant, occurrences] of variants) {
+      if (!best || occurrences.length > best.occurrences.length) best = { variant, occurrences };
+    }
+    canonical.set(slot, best!);
+  }
+
+  // Name components after the parameter; when a name is used in several locations,
+  // the most common location gets the bare name (TableId) and the others a suffix (TableIdPath)
+  const slotsByName = new Map<string, string[]>();
+  for (const [slot, { occurrences }] of canonical) {
+    if (occurrences.length < 2) continue;
+    const name = occurrences[0].param.name;
+    slotsByName.set(name, [...(slotsByName.get(name) ?? []), slot]);
+  }
+
+  let promoted = 0;
+  let references = 0;
+
+  for (const [name, nameSlots] of slotsByName) {
+    nameSlots.sort((a, b) => canonical.get(b)!.occurrences.length - canonical.get(a)!.occurrences.length);
+
+    nameSlots.forEach((slot, i) => {
+      const { occurrences } = canonical.get(slot)!;
+      const location = occurrences[0].param.in;
+
+      let componentName = toParameterComponentName(name);
+      if (i > 0 || spec.components.parameters![componentName]) {
+        componentName += toParameterComponentName(location);
+      }
+
+      const component: Parameter = { ...occurrences[0].param };
+      const description = mostCommon(occurrences.map((o) => o.param.description).filter((d) => d !== undefined));
+      const example = mostCommon(occurrences.map((o) => o.param.example).filter((e) => e !== undefined));
+      if (description !== undefined) component.description = description;
+      if (example !== undefined) component.example = example;
+      spec.components.parameters![componentName] = component;
+
+      for (const { parameters, index, param } of occurrences) {
+        const ref: ParameterRef = { $ref: `#/components/parameters/${componentName}` };
+        // Operation-specific wording stays as a $ref sibling for the 3.1 output
+        if (param.description !== undefined && param.description !== component.description) {
+          ref.description = param.description;
+        }
+        parameters[index] = ref;
+      }
+
+      promoted++;
+      references += occurrences.length;
+    });
+  }
+
+  // Report same-named parameters that don't match the canonical variant
+  for (const [slot, variants] of slots) {
+    const { variant: canonicalVariant } = canonical.get(slot)!;
+    for (const [variant, occurrences] of variants) {
+      if (variant === canonicalVariant) continue;
+      const { name, in: location } = occurrences[0].param;
+      const operationIds = occurrences.map((o) => o.operationId).join(', ');
+      log('warn', `Parameter ${name} (${location}) in ${operationIds} conflicts with the shared definition: ${variant} vs ${canonicalVariant}`);
+    }
+  }
+
+  log('info', `Promoted ${promoted} shared parameters to components/parameters (${references} references)`);
+}
+
+/**
+ * Merge overrides into spec
+ */
+function mergeOverrides(
+  spec: OpenAPISpec,
+  overrides: Awaited<ReturnType<typeof loadOverrides>>
+): void {
+  // Merge schemas
+  if (overrides.schemas) {
+    spec.components.schemas = {
+      ...spec.components.schemas,
+      ...overrides.schemas,
+    };
+    log('info', `Merged ${Object.keys(overrides.schemas).length} schema overrides`);
+  }
+
+  // Merge parameters
+  if (overrides.parameters) {
+    spec.components.parameters = {
+      ...spec.components.parameters,
+      ...overrides.parameters,
+    };
+    log('info', `Merged ${Object.keys(overrides.parameters).length} parameter overrides`);
+  }
+  // Set per-operation security requirements (keyed by operationId)
+  if (overrides.security) {
+    const remaining = new Set(Object.keys(overrides.security));
+
+    for (const pathItem of Object.values(spec.paths)) {
+      for (const method of ['get', 'post', 'put', 'delete', 'patch'] as const) {
+        const operation = pathItem[method];
+        if (operation && overrides.security[operation.operationId]) {
+          operation.security = overrides.security[operation.operationId];
+          remaining.delete(operation.operationId);
+        }
+      }
+    }
+
+    for (const operationId of remaining) {
+      log('warn', `Security override for unknown operation: ${operationId}`);
+    }
+    log('info', `Applied ${Object.keys(overrides.security).length - remaining.size} security overrides`);
+  }
+}
+
+/**
+ * Follow a dotted property path through a schema, resolving component $refs
+ */
+function findSchemaProperty(spec: OpenAPISpec, schema: Schema | undefined, path: string): Schema | undefined {
+  let current = schema;
+  for (const key of path.split('.')) {
+    if (current?.$ref) {
+      current = spec.components.schemas?.[current.$ref.split('/').pop() || ''];
+    }
+    current = current?.properties?.[key];
+  }
+  return current;
+}
+
+/**
+ * Record the values a body (an example or fixture) gives an enum component that the
+ * enum doesn't list. Union branches are skipped: the value doesn't say which one applies.
+ */
+function collectUnknownEnumValues(value: unknown, schema: Schema | undefined, spec: OpenAPISpec, path: string, unknown: string[]): void {
+  if (!schema || value === null || value === undefined) return;
+
+  if (schema.$ref) {
+    const name = schema.$ref.split('/').pop() || '';
+    if (ENUMS[name]) {
+      if (typeof value === 'string' && !ENUMS[name].values.includes(value)) {
+        unknown.push(`${path}: ${JSON.stringify(value)} not in ${name}`);
+      }
+      return;
+    }
+    collectUnknownEnumValues(value, spec.components.schemas?.[name], spec, path, unknown);
+    return;
+  }
+
+  for (const part of schema.allOf || []) {
+    collectUnknownEnumValues(value, part, spec, path, unknown);
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => collectUnknownEnumValues(item, schema.items, spec, `${path}[${i}]`, unknown));
+  } else if (typeof value === 'object') {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      const childSchema = schema.properties?.[key] ?? (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined);
+      collectUnknownEnumValues(child, childSchema, spec, `${path}.${key}`, unknown);
+    }
+  }
+}
+
+/**
+ * Cross-check the enum catalog against the values the spec's examples and the
+ * fixtures (including _manual) use, so a value QuickBase returns but the catalog
+ * lacks fails the build instead of only the health check.
+ */
+function checkEnumValues(spec: OpenAPISpec, unknown: string[]): void {
+  type Media = { schema?: Schema; example?: unknown; examples?: Record<string, unknown> };
+  const json = (content: Record<string, Media> | undefined) => content?.['application/json'];
+  const resolveResponse = (response: Response | undefined) =>
+    response?.$ref ? spec.components.responses?.[response.$ref.split('/').pop() || ''] : response;
+
+  const operations: OperationIndex<Operation> = new Map();
+  for (const pathItem of Object.values(spec.paths)) {
+    for (const method of ['get', 'post', 'put', 'delete', 'patch'] as const) {
+      const operation = pathItem[method];
+      if (!operation) continue;
+      // Operation folders are unique, so fixtures match by folder whatever their tag
+      operations.set(operation.operationId, { tag: '', operation });
+
+      const medias: Array<[string, Media | undefined]> = [
+        ['request', json(operation.requestBody?.content)],
+        ...Object.entries(operation.responses || {}).map(([status, response]): [string, Media | undefined] => [status, json(resolveResponse(response)?.content)]),
+      ];
+      for (const [label, media] of medias) {
+        if (!media?.schema) continue;
+        const where = `spec:${operation.operationId} ${label}`;
+        collectUnknownEnumValues(media.example ?? media.schema.example, media.schema, spec, `${where} example`, unknown);
+        for (const [name, example] of Object.entries(media.examples || {})) {
+          collectUnknownEnumValues((example as { value?: unknown }).value, media.schema, spec, `${where} examples.${name}`, unknown);
+        }
+      }
+    }
+  }
+  for (const [name, schema] of Object.entries(spec.components.schemas || {})) {
+    collectUnknownEnumValues(schema.example, schema, spec, `spec:${name} example`, unknown);
+  }
+
+  for (const fixturePath of findFixtureFiles(PATHS.fixtures)) {
+    const info = parseFixturePath(fixturePath);
+    const match = info && findOperation(info.tag, info.operationFolder, operations);
+    const fixture = match && loadFixture(fixturePath);
+    if (!info || !match || !fixture) continue;
+
+    const { operation } = match;
+    const media = info.type === 'request'
+      ? json(operation.requestBody?.content)
+      : json(resolveResponse(operation.responses?.[String(info.status || 200)])?.content);
+    collectUnknownEnumValues(fixture.body, media?.schema, spec, relative(PATHS.fixtures, fixturePath), unknown);
+  }
+}
+
+/**
+ * Pull domain enums into named components (see tools/enums.ts). Inline enums on a
+ * catalogued property or parameter name become a $ref when every value is in the
+ * catalog; the catalog's plain-string properties are typed with the enum.
+ */
+function addEnumSchemas(spec: OpenAPISpec): void {
+  const schemas = spec.components.schemas!;
+  const references: Record<string, number> = {};
+
+  for (const name of Object.keys(ENUMS)) {
+    if (schemas[name]) {
+      throw new Error(`Enum ${name} collides with an existing schema`);
+    }
+    references[name] = 0;
+  }
+
+  const toRef = (name: string, schema: Schema): Schema => {
+    references[name]++;
+    // The description stays as a $ref sibling for the 3.1 output
+    const ref: Schema = { $ref: `#/components/schemas/${name}` };
+    if (schema.description) ref.description = schema.description;
+    return ref;
+  };
+
+  // Source enums that are mostly a catalogued enum, but list values it lacks
+  // (e.g. a new field type); ones merely sharing a value (['app', 'user']) are other enums
+  const unknown: string[] = [];
+
+  const findEnum = (key: string, schema: Schema | undefined): string | undefined => {
+    if (schema?.type !== 'string' || !schema.enum) return undefined;
+    return Object.keys(ENUMS).find((name) => {
+      if (!ENUMS[name].names.includes(key)) return false;
+      const missing = schema.enum!.filter((value) => !ENUMS[name].values.includes(value as string));
+      if (missing.length > 0 && missing.length < schema.enum!.length / 2) {
+        unknown.push(`inline ${key} enum: ${missing.map((value) => JSON.stringify(value)).join(', ')} not in ${name}`);
+      }
+      return missing.length === 0;
+    });
+  };
+
+  const walk = (obj: unknown): void => {
+    if (!obj || typeof obj !== 'object') return;
+
+    const record = obj as Record<string, unknown>;
+    const properties = record.properties as Record<string, Schema> | undefined;
+    if (properties && typeof properties === 'object') {
+      for (const [key, schema] of Object.entries(properties)) {
+        const name = findEnum(key, schema);
+        if (name) properties[key] = toRef(name, schema);
+      }
+    }
+
+    // Parameters
+    if (typeof record.name === 'string' && typeof record.in === 'string') {
+      const name = findEnum(record.name, record.schema as Schema | undefined);
+      if (name) record.schema = toRef(name, record.schema as Schema);
+    }
+
+    for (const [key, value] of Object.entries(record)) {
+      if (key !== 'example' && key !== 'examples') walk(value);
+    }
+  };
+
+  walk(spec.paths);
+  walk(spec.components.schemas);
+  walk(spec.components.parameters);
+
+  // Plain strings, addressed as Schema.dotted.path ([] steps into array items)
+  const resolve = (schema: Schema | undefined): Schema | undefined =>
+    schema?.$ref ? schemas[schema.$ref.split('/').pop() || ''] : schema;
+
+  for (const [name, definition] of Object.entries(ENUMS)) {
+    for (const location of definition.properties || []) {
+      const [schemaName, ...steps] = location.split('.');
+      let parent: Schema | undefined = schemas[schemaName];
+      for (const step of steps.slice(0, -1)) {
+        parent = resolve(parent?.properties?.[step.replace(/\[\]$/, '')]);
+        if (step.endsWith('[]')) parent = resolve(parent?.items);
+      }
+
+      const key = steps[steps.length - 1];
+      const target = parent?.properties?.[key];
+      if (target?.type !== 'string') {
+        log('warn', `Skipped enum ${name} for ${location}: not a string property in spec`);
+        continue;
+      }
+      parent!.properties![key] = toRef(name, target);
+    }
+  }
+
+  for (const [name, definition] of Object.entries(ENUMS)) {
+    schemas[name] = { type: 'string', description: definition.description, enum: definition.values };
+    if (references[name] === 0) {
+      log('warn', `Enum ${name} is not referenced anywhere`);
+    }
+  }
+  checkEnumValues(spec, unknown);
+  if (unknown.length > 0) {
+    throw new Error(`${unknown.length} enum values not in tools/enums.ts:\n  ${unknown.join('\n  ')}`);
+  }
+  log('info', `Added ${Object.keys(ENUMS).length} enum schemas (${Object.entries(references).map(([name, count]) => `${name}: ${count}`).join(', ')})`);
+}
+
+/**
+ * The discriminator property of a union variant: the enum component, narrowed to one value.
+ * The $ref sits in allOf, where the 3.0 output keeps it next to the enum.
+ */
+function enumMember(name: string, value: string): Schema {
+  if (!ENUMS[name].values.includes(value)) {
+    throw new Error(`${JSON.stringify(value)} is not a ${name} value (see tools/enums.ts)`);
+  }
+  return {
+    type: 'string',
+    description: `Always \`${value}\`.`,
+    allOf: [{ $ref: `#/components/schemas/${name}` }],
+    enum: [value],
+  };
+}
+
+/**
+ * Replace the loose ReportDefinition with a `Report` union discriminated on `type`
+ * (see tools/report-types.ts). Each variant copies the shared report fields and
+ * types `properties` for its report type; ReportDefinition stays as an alias.
+ * getReport gets one named example per type, generated as fixture variants.
+ */
+function addReportUnion(spec: OpenAPISpec): void {
+  const schemas = spec.components.schemas!;
+  const base = schemas.ReportDefinition;
+  if (!base?.properties) {
+    log('warn', 'Skipped Report union: ReportDefinition not found');
+    return;
+  }
+
+  const mapping: Record<string, string> = {};
+  for (const [type, definition] of Object.entries(REPORT_TYPES)) {
+    const propertiesName = `${definition.name}Properties`;
+    schemas[propertiesName] = definition.properties as Schema;
+    schemas[definition.name] = {
+      ...structuredClone(base),
+      description: definition.description,
+      required: [...new Set([...(base.required || []), 'type'])],
+      properties: {
+        ...structuredClone(base.properties),
+        type: enumMember('ReportType', type),
+        properties: { $ref: `#/components/schemas/${propertiesName}` },
+      },
+    };
+    mapping[type] = `#/components/schemas/${definition.name}`;
+  }
+
+  schemas.Report = {
+    description: 'A report definition. `type` selects the shape of `properties`.',
+    oneOf: Object.values(mapping).map(($ref) => ({ $ref })),
+    discriminator: { propertyName: 'type', mapping },
+  };
+  rewriteSchemaRefs(spec, new Map([['#/components/schemas/ReportDefinition', '#/components/schemas/Report']]));
+  schemas.ReportDefinition = { $ref: '#/components/schemas/Report', description: 'Deprecated alias of Report.' };
+
+  for (const pathItem of Object.values(spec.paths)) {
+    const media = pathItem.get?.operationId === 'getReport'
+      ? pathItem.get.responses?.['200']?.content?.['application/json'] as { example?: unknown; examples?: Record<string, unknown> } | undefined
+      : undefined;
+    if (media) {
+      delete media.example;
+      media.examples = Object.fromEntries(
+        Object.entries(REPORT_TYPES).map(([type, definition]) => [type, { summary: definition.description, value: definition.example }])
+      );
+    }
+  }
+
+  log('info', `Added Report union with ${Object.keys(mapping).length} report types`);
+}
+
+/**
+ * Replace the loose Field and CreateFieldRequest schemas with unions discriminated
+ * on `fieldType` (see tools/field-types.ts). Each field type gets a `<Name>Properties`
+ * schema holding only its own properties, taken from the spec's field property
+ * schemas; properties only QuickBase sets are marked readOnly. updateField stays
+ * as it is: its body has no fieldType to discriminate on.
+ */
+function addFieldTypeUnion(spec: OpenAPISpec): void {
+  const schemas = spec.components.schemas!;
+  const field = schemas.Field;
+  const createRequest = schemas.CreateFieldRequest;
+  if (!field?.properties || !createRequest?.properties) {
+    log('warn', 'Skipped field type union: Field or CreateFieldRequest not found');
+    return;
+  }
+
+  // Where the spec documents field properties, most complete first
+  const sources = ['FieldProperties', 'CreateFieldRequestProperties', 'UpdateFieldRequestProperties']
+    .map((name) => schemas[name]?.properties || {});
+  const unassigned = new Set(sources.flatMap((properties) => Object.keys(properties)));
+  UNTYPED_FIELD_PROPERTIES.forEach((property) => unassigned.delete(property));
+
+  const mapping: Record<string, string> = {};
+  const createMapping: Record<string, string> = {};
+  for (const [type, definition] of Object.entries(FIELD_TYPES)) {
+    const propertiesName = `${definition.name}Properties`;
+    const createName = `Create${definition.name}Request`;
+    for (const name of [definition.name, propertiesName, ...(definition.creatable ? [createName] : [])]) {
+      if (schemas[name]) {
+        throw new Error(`Field type schema ${name} collides with an existing component`);
+      }
+    }
+
+    const properties: Record<string, Schema> = {};
+    for (const [property, catalog] of Object.entries(getFieldTypeProperties(type)!)) {
+      const source = sources.find((candidates) => candidates[property])?.[property] || catalog.schema;
+      if (!source) {
+        throw new Error(`Field type ${type} lists ${property}, which no field property schema documents`);
+      }
+      unassigned.delete(property);
+      properties[property] = {
+        ...structuredClone(source as Schema),
+        ...(catalog.default !== undefined && { default: catalog.default }),
+        ...(catalog.readOnly && { readOnly: true }),
+      };
+    }
+    schemas[propertiesName] = {
+      type: 'object',
+      description: `Properties of ${type} fields.`,
+      additionalProperties: false,
+      properties,
+    };
+
+    const variant = (base: Schema): Schema => ({
+      ...structuredClone(base),
+      description: definition.description,
+      required: [...new Set([...(base.required || []), 'fieldType'])],
+      properties: {
+        ...structuredClone(base.properties),
+        fieldType: enumMember('FieldType', type),
+        properties: { $ref: `#/components/schemas/${propertiesName}` },
+      },
+    });
+
+    schemas[definition.name] = variant(field);
+    delete schemas[definition.name].example;
+    mapping[type] = `#/components/schemas/${definition.name}`;
+    if (definition.creatable) {
+      schemas[createName] = variant(createRequest);
+      createMapping[type] = `#/components/schemas/${createName}`;
+    }
+  }
+
+  // Replaced in place, so every reference (and alias) picks up the union
+  schemas.Field = {
+    description: 'A field. `fieldType` selects the shape of `properties`.',
+    oneOf: Object.values(mapping).map(($ref) => ({ $ref })),
+    discriminator: { propertyName: 'fieldType', mapping },
+    ...(field.example !== undefined && { example: field.example }),
+  };
+  schemas.CreateFieldRequest = {
+    description: createRequest.description,
+    oneOf: Object.values(createMapping).map(($ref) => ({ $ref })),
+    discriminator: { propertyName: 'fieldType', mapping: createMapping },
+  };
+
+  if (unassigned.size > 0) {
+    log('warn', `Field properties not assigned to any field type: ${[...unassigned].join(', ')}`);
+  }
+  log('info', `Added Field union with ${Object.keys(mapping).length} field types (${Object.keys(createMapping).length} creatable)`);
+}
+
+/**
+ * Declare the QBL YAML bodies of the Solutions endpoints as QBLDocument and the
+ * QBL-Version header as QBLVersion (see tools/qbl.ts). The string examples move
+ * to the media type, where they still generate the YAML fixtures.
+ */
+function addQBLSchemas(spec: OpenAPISpec): void {
+  const schemas = spec.components.schemas!;
+  for (const [name, schema] of Object.entries(QBL_SCHEMAS)) {
+    schemas[name] = schema as Schema;
+  }
+
+  const remaining = new Set(Object.keys(QBL_OPERATIONS));
+  let headers = 0;
+
+  for (const pathItem of Object.values(spec.paths)) {
+    for (const method of ['get', 'post', 'put', 'delete', 'patch'] as const) {
+      const operation = pathItem[method];
+      if (!operation) continue;
+
+      for (const param of operation.parameters || []) {
+        if (!('$ref' in param) && param.in === 'header' && param.name === 'QBL-Version') {
+          param.schema = { $ref: '#/components/schemas/QBLVersion' };
+          headers++;
+        }
+      }
+
+      const location = QBL_OPERATIONS[operation.operationId];
+      if (!location) continue;
+      remaining.delete(operation.operationId);
+
+      const content = location === 'request' ? operation.requestBody?.content : operation.responses?.['200']?.content;
+      const media = content?.['application/x-yaml'];
+      if (media?.schema?.type !== 'string') {
+        log('warn', `Skipped QBL schema for ${operation.operationId}: no application/x-yaml string ${location} body`);
+        continue;
+      }
+
+      if (media.schema.example !== undefined && media.example === undefined) {
+        media.example = media.schema.example;
+      }
+      media.schema = { $ref: '#/components/schemas/QBLDocument' };
+    }
+  }
+
+  for (const operationId of remaining) {
+    log('warn', `QBL entry for unknown operation: ${operationId}`);
+  }
+  log('info', `Added QBL document schemas to ${Object.keys(QBL_OPERATIONS).length - remaining.size} operations and typed ${headers} QBL-Version headers`);
+}
+
+/**
+ * Point the 200 and 207 bodies of operations that can partially succeed at one
+ * shared result schema and add x-qb-partial-success (see tools/partial-success.ts).
+ * A result schema missing from components is built from the inline 200 body; both
+ * bodies keep their own description and example. Entries that no longer match are skipped.
+ */
+function addPartialSuccess(spec: OpenAPISpec): void {
+  const schemas = spec.components.schemas!;
+  for (const [name, schema] of Object.entries(PARTIAL_SUCCESS_SCHEMAS)) {
+    schemas[name] = schema as Schema;
+  }
+
+  const remaining = new Set(Object.keys(PARTIAL_SUCCESS));
+  let added = 0;
+
+  for (const pathItem of Object.values(spec.paths)) {
+    for (const method of ['get', 'post', 'put', 'delete', 'patch'] as const) {
+      const operation = pathItem[method];
+      const partial = operation && PARTIAL_SUCCESS[operation.operationId];
+      if (!operation || !partial) continue;
+      remaining.delete(operation.operationId);
+
+      const success = operation.responses?.['200']?.content?.['application/json'];
+      const multiStatus = operation.responses?.['207']?.content?.['application/json'];
+      if (!success?.schema || !multiStatus?.schema) {
+        log('warn', `Skipped partial success for ${operation.operationId}: no 200 and 207 JSON bodies`);
+        continue;
+      }
+
+      const $ref = `#/components/schemas/${partial.schema}`;
+      if (!schemas[partial.schema] && !success.schema.$ref) {
+        const { description, example, ...schema } = success.schema;
+        if (example !== undefined && success.example === undefined) {
+          success.example = example;
+        }
+        schemas[partial.schema] = schema;
+        success.schema = description ? { $ref, description } : { $ref };
+      }
+      const result = schemas[partial.schema];
+      if (!result || success.schema.$ref !== $ref) {
+        log('warn', `Skipped partial success for ${operation.operationId}: 200 body is not ${partial.schema}`);
+        continue;
+      }
+
+      const undocumented = Object.keys(multiStatus.schema.properties || {}).filter((key) => !result.properties?.[key]);
+      const requestSchema = operation.requestBody?.content?.['application/json']?.schema;
+      const missing = [
+        ...undocumented.map((key) => `207 ${key}`),
+        ...Object.values(partial.request)
+          .filter((path) => !findSchemaProperty(spec, requestSchema, path))
+          .map((path) => `request ${path}`),
+        ...Object.values(partial.response)
+          .filter((path) => !findSchemaProperty(spec, result, path))
+          .map((path) => `response ${path}`),
+      ];
+      if (missing.length > 0) {
+        log('warn', `Skipped partial success for ${operation.operationId}: ${missing.join(', ')} not in ${partial.schema}`);
+        continue;
+      }
+
+      if (!multiStatus.schema.$ref) {
+        const { description, example } = multiStatus.schema;
+        if (example !== undefined && multiStatus.example === undefined) {
+          multiStatus.example = example;
+        }
+        // The description stays as a $ref sibling for the 3.1 output
+        multiStatus.schema = description ? { $ref, description } : { $ref };
+      }
+
+      operation['x-qb-partial-success'] = partial;
+      added++;
+    }
+  }
+
+  for (const operationId of remaining) {
+    log('warn', `Partial success entry for unknown operation: ${operationId}`);
+  }
+  log('info', `Added partial success metadata to ${added} operations`);
+}
+
+/**
+ * Turn constraints stated in schema and parameter descriptions into schema keywords
+ * (see tools/constraints.ts) and list every match in output/constraints-report.json.
+ * A keyword the spec already sets is left alone; a default outside the enum is skipped.
+ */
+function addDescribedConstraints(spec: OpenAPISpec): void {
+  const report: Array<{
+    pointer: string;
+    keyword: ConstraintKeyword;
+    value: unknown;
+    pattern: string;
+    text: string;
+    status: 'applied' | 'skipped';
+    reason?: string;
+  }> = [];
+
+  const apply = (schema: Schema, description: string, pointer: string): void => {
+    // Check types and enums against the component a $ref points to
+    const target = schema.$ref ? spec.components.schemas?.[schema.$ref.replace('#/components/schemas/', '')] : schema;
+    if (!target?.type) return;
+
+    for (const constraint of mineConstraints(description, target.type)) {
+      const { keyword, value } = constraint;
+      const existing = schema[keyword] ?? target[keyword];
+      let reason: string | undefined;
+      if (existing !== undefined) {
+        reason = existing === value ? 'already set' : `spec already sets ${JSON.stringify(existing)}`;
+      } else if (keyword === 'default' && target.enum && !target.enum.includes(value as string)) {
+        reason = 'not one of the enum values';
+      }
+
+      if (!reason) {
+        // Keywords beside a $ref are dropped from the 3.0 output, so the $ref moves into allOf
+        if (schema.$ref) {
+          schema.allOf = [{ $ref: schema.$ref }];
+          delete schema.$ref;
+        }
+        (schema as Record<string, unknown>)[keyword] = value;
+      }
+      report.push({ pointer, ...constraint, status: reason ? 'skipped' : 'applied', ...(reason && { reason }) });
+    }
+  };
+
+  const walk = (obj: unknown, pointer: string): void => {
+    if (!obj || typeof obj !== 'object') return;
+
+    const record = obj as Record<string, unknown>;
+    if (typeof record.description === 'string') {
+      if (typeof record.name === 'string' && typeof record.in === 'string' && record.schema) {
+        // Parameters describe their schema
+        apply(record.schema as Schema, record.description, `${pointer}/schema`);
+      } else if (typeof record.type === 'string' || (typeof record.$ref === 'string' && record.$ref.startsWith('#/components/schemas/'))) {
+        // A parameter or response $ref is not a schema, so its description has no keywords to take
+        apply(record as Schema, record.description, pointer);
+      }
+    }
+
+    for (const [key, value] of Object.entries(record)) {
+      if (key !== 'example' && key !== 'examples') {
+        walk(value, `${pointer}/${toPointerToken(key)}`);
+      }
+    }
+  };
+
+  walk(spec.paths, '/paths');
+  walk(spec.components.schemas, '/components/schemas');
+  walk(spec.components.parameters, '/components/parameters');
+
+  const applied = report.filter((entry) => entry.status === 'applied').length;
+  const reportPath = join(PATHS.output, 'constraints-report.json');
+  writeJson(reportPath, { summary: { applied, skipped: report.length - applied }, constraints: report });
+  log('info', `Applied ${applied} constraints from descriptions (${report.length - applied} skipped, see ${reportPath})`);
+}
+
+/**
+ * Add x-qb-pagination to paginated operations (see tools/pagination.ts).
+ * Entries whose request or response locations are missing from the spec are skipped.
+ */
+function addPaginationMetadata(spec: OpenAPISpec): void {
+  const remaining = new Set(Object.keys(PAGINATION));
+  let added = 0;
+
+  for (const pathItem of Object.values(spec.paths)) {
+    for (const method of ['get', 'post', 'put', 'delete', 'patch'] as const) {
+      const operation = pathItem[method];
+      const pagination = operation && PAGINATION[operation.operationId];
+      if (!operation || !pagination) continue;
+      remaining.delete(operation.operationId);
+
+      const queryParams = new Set(
+        (operation.parameters || [])
+          .map((param) => ('$ref' in param
+            ? spec.components.parameters?.[param.$ref.split('/').pop() || ''] as Parameter | undefined
+            : param))
+          .filter((param) => param?.in === 'query')
+          .map((param) => param!.name)
+      );
+      const requestSchema = operation.requestBody?.content?.['application/json']?.schema;
+      const responseSchema = operation.responses?.['200']?.content?.['application/json']?.schema;
+
+      const missing = [
+        ...Object.values(pagination.request)
+          .filter((param) => (param.in === 'query'
+            ? !queryParams.has(param.name)
+            : !findSchemaProperty(spec, requestSchema, param.name)))
+          .map((param) => `${param.in} ${param.name}`),
+        ...Object.values(pagination.response)
+          .filter((path) => !findSchemaProperty(spec, responseSchema, path))
+          .map((path) => `response ${path}`),
+      ];
+      if (missing.length > 0) {
+        log('warn', `Skipped pagination for ${operation.operationId}: ${missing.join(', ')} not in spec`);
+        continue;
+      }
+
+      operation['x-qb-pagination'] = pagination;
+      added++;
+    }
+  }
+
+  for (const operationId of remaining) {
+    log('warn', `Pagination entry for unknown operation: ${operationId}`);
+  }
+  log('info', `Added pagination metadata to ${added} operations`);
+}
+
+/**
+ * Add x-qb-async to long-running operations (see tools/async-operations.ts).
+ * Entries whose statuses or echoed fields are missing from the spec are skipped.
+ */
+function addAsyncMetadata(spec: OpenAPISpec): void {
+  const remaining = new Set(Object.keys(ASYNC_OPERATIONS));
+  let added = 0;
+
+  for (const pathItem of Object.values(spec.paths)) {
+    for (const method of ['get', 'post', 'put', 'delete', 'patch'] as const) {
+      const operation = pathItem[method];
+      const async = operation && ASYNC_OPERATIONS[operation.operationId];
+      if (!operation || !async) continue;
+      remaining.delete(operation.operationId);
+
+      const requestSchema = operation.requestBody?.content?.['application/json']?.schema;
+      const pendingSchema = operation.responses?.[async.pendingStatus]?.content?.['application/json']?.schema;
+
+      const missing = [
+        ...[async.pendingStatus, async.doneStatus]
+          .filter((status) => !operation.responses?.[status])
+          .map((status) => `${status} response`),
+        ...Object.keys(async.echo)
+          .filter((path) => !findSchemaProperty(spec, pendingSchema, path))
+          .map((path) => `response ${path}`),
+        ...Object.values(async.echo)
+          .filter((path) => !findSchemaProperty(spec, requestSchema, path))
+          .map((path) => `request ${path}`),
+      ];
+      if (missing.length > 0) {
+        log('warn', `Skipped async metadata for ${operation.operationId}: ${missing.join(', ')} not in spec`);
+        continue;
+      }
+
+      operation['x-qb-async'] = async;
+      added++;
+    }
+  }
+
+  for (const operationId of remaining) {
+    log('warn', `Async entry for unknown operation: ${operationId}`);
+  }
+  log('info', `Added async metadata to ${added} operations`);
+}
+
+/**
+ * Apply overrides/patches.yaml and write output/patch-report.json, with the
+ * built-in fixes' results. Stale patches (upstream no longer matches) are
+ * reported; failed patches and fixes abort the build.
+ */
+function applyPatchOverrides(spec: OpenAPISpec, patches: DeclarativePatch[], builtin: BuiltinFixResult[]): void {
+  const results = applyDeclarativePatches(spec, patches);
+
+  const count = (status: PatchResult['status']): number =>
+    results.filter((r) => r.status === status).length + builtin.filter((r) => r.status === status).length;
+  const report = {
+    summary: { applied: count('applied'), stale: count('stale'), failed: count('failed') },
+    results,
+    builtin,
+  };
+  const reportPath = join(PATHS.output, 'patch-report.json');
+  writeJson(reportPath, report);
+
+  for (const result of results) {
+    if (result.status === 'applied') continue;
+    const target = `${result.operationId ?? ''}${result.pointer}`;
+    const label = `patches[${result.patch}]${result.description ? ` (${result.description})` : ''} ${target}`;
+    if (result.status === 'stale') {
+      log('warn', `Stale patch ${label}: ${result.reason} (may be fixed upstream)`);
+    } else {
+      log('error', `Failed patch ${label}: ${result.reason}`);
+    }
+  }
+  for (const result of builtin) {
+    if (result.status === 'failed') {
+      log('error', `Failed built-in fix "${result.fix}": ${result.reason}`);
+    }
+  }
+
+  log('info', `Patches and built-in fixes: ${report.summary.applied} applied, ${report.summary.stale} stale, ${report.summary.failed} failed`);
+  log('info', `Wrote patch report to: ${reportPath}`);
+
+  if (report.summary.failed > 0) {
+    throw new Error(`${report.summary.failed} patches or built-in fixes failed (see ${reportPath})`);
+  }
+}
+
+/** Options for the patch step */
+export interface PatchOptions {
+  /** Also write an OpenAPI 3.1 variant (output/quickbase-patched.3.1.json) */
+  openapi31?: boolean;
+  /**
+   * Keep the QB-Realm-Hostname header parameter on each operation.
+   * Off by default: most SDKs set it once from client config.
+   */
+  keepRealmHeader?: boolean;
+}
+
+/**
+ * Main patch function
+ */
+export async function patch(inputPath?: string, options: PatchOptions = {}): Promise<void> {
+  await runTask('Patch OpenAPI spec', async () => {
+    // Find input file
+    const input = inputPath || join(PATHS.output, 'quickbase-openapi3.json');
+
+    if (!existsSync(input)) {
+      throw new Error(`Input file not found: ${input}`);
+    }
+
+    // Read spec
+    const spec = readJson<OpenAPISpec>(input);
+
+    // Load overrides
+    const overrides = await loadOverrides();
+
+    // Apply patches to all operations
+    for (const [path, pathItem] of Object.entries(spec.paths)) {
+      for (const method of ['get', 'post', 'put', 'delete', 'patch'] as const) {
+        const operation = pathItem[method];
+        if (operation) {
+          patchOperation(operation, path, method);
+        }
+      }
+    }
+
+    // SDKs that take the realm from client config don't want it on every method
+    if (!options.keepRealmHeader) {
+      stripRealmHeader(spec);
+    }
+
+    // Add QuickbaseRecord, FieldValue and field value schemas
+    addRecordSchemas(spec);
+
+    // Add ErrorResponse and the standard error responses to every operation
+    addErrorResponses(spec, overrides.errors);
+
+    // Add SortField schema for sortBy
+    addSortFieldSchema(spec);
+
+    // Add OwnerId schema for owner ID fields that can be string or int
+    addOwnerIdSchema(spec);
+
+    // Fix invalid type values ("int" -> "integer")
+    const builtin: BuiltinFixResult[] = [];
+    fixInvalidTypes(spec.paths, '/paths', builtin);
+
+    // Patch other array schemas (select, sortBy, choicesLuid, etc.)
+    patchArraySchemas(spec.paths, '/paths', builtin);
+
+    // Patch schemas
+    patchSchemas(spec, builtin);
+    checkBuiltinFixes(builtin);
 
     // Extract inline anonymous schemas to named component schemas
     // This must run BEFORE mergeOverrides so overrides can reference extracted schemas
-    extractInlineSchemas(spec);
+    const schemaNames = extractInlineSchemas(spec, overrides.naming);
+    writeNamingReport(schemaNames);
+    addSchemaAliases(spec, overrides.naming?.aliases || {});
+
+    // Merge structurally identical schemas (after extraction, so extracted copies compare)
+    dedupeSchemas(spec, overrides.naming?.merged);
+
+    // Mark query language strings once inline schemas have their final names
+    markQueryStrings(spec);
+
+    // Replace inline domain enums with named enum components
+    addEnumSchemas(spec);
+
+    // Split report definitions by type (after enums, so variants share ReportType's fields)
+    addReportUnion(spec);
+
+    // Split field definitions by field type (after enums, so variants share FieldType's fields)
+    addFieldTypeUnion(spec);
+
+    // Type the QBL documents exchanged by the Solutions endpoints
+    addQBLSchemas(spec);
+
+    // Share result schemas between 200 and 207 bodies (after dedupe, so trustee results are merged)
+    addPartialSuccess(spec);
+
+    // Share parameters that operations redeclare identically
+    // This must run BEFORE mergeOverrides so overrides can replace promoted parameters
+    promoteSharedParameters(spec);
 
     // Merge overrides
     mergeOverrides(spec, overrides);
 
+    // Constraints from description prose (after overrides, so they are mined too)
+    addDescribedConstraints(spec);
+
+    // Describe paginated operations once parameters and schemas are final
+    addPaginationMetadata(spec);
+
+    // Describe long-running operations once request and response schemas are final
+    addAsyncMetadata(spec);
+
+    // Apply declarative patches last, so pointers address the final shape of the spec
+    applyPatchOverrides(spec, overrides.patches || [], builtin);
+
+    // Write the opt-in 3.1 variant before $ref siblings are dropped
+    if (options.openapi31) {
+      const spec31 = toOpenAPI31(structuredClone(spec));
+      const outputPath31 = join(PATHS.output, 'quickbase-patched.3.1.json');
+      writeJson(outputPath31, spec31);
+      log('info', `Wrote OpenAPI 3.1 spec to: ${outputPath31}`);
+    }
+
+    // OpenAPI 3.0 ignores keywords next to $ref
+    const stripped = stripRefSiblings(spec);
+    if (stripped > 0) {
+      log('info', `Removed sibling keywords from ${stripped} $refs for OpenAPI 3.0`);
+    }
+
     // Write output
     const outputPath = join(PATHS.output, 'quickbase-patched.json');
     writeJson(outputPath, spec);
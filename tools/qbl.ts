@@ -0,0 +1,164 @@
+/**
+ * QBL document schema
+ *
+ * createSolution, updateSolution and changesetSolution take a QBL (Quickbase Language)
+ * YAML document and exportSolution returns one; the source spec types them as plain
+ * strings. The patch step declares these `application/x-yaml` bodies as QBLDocument
+ * and the QBL-Version header as QBLVersion. SDKs serialize the document as YAML.
+ *
+ * Resources are keyed by logical ID (`$App_Example_app`, `$Role_Viewer`), and
+ * `!Ref` tags point at another resource by logical ID, e.g. `!Ref { Role: $Role_Viewer }`.
+ * QuickBase is releasing QBL coverage in stages, so every object here keeps
+ * `additionalProperties` for keys not listed.
+ */
+
+/** QBL versions the QBL-Version header accepts; add new ones as QuickBase releases them */
+export const QBL_VERSIONS = ['0.2', '0.4'];
+
+/** Operations exchanging QBL documents: where the document is, by operationId */
+export const QBL_OPERATIONS: Record<string, 'request' | 'response'> = {
+  createSolution: 'request',
+  updateSolution: 'request',
+  changesetSolution: 'request',
+  exportSolution: 'response',
+};
+
+/** The `Properties` of a resource: open, with a name, a description and any others listed */
+const namedProperties = (name: string, others: Record<string, unknown> = {}) => ({
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    [name]: { type: 'string' },
+    Description: { type: 'string', nullable: true },
+    ...others,
+  },
+});
+
+/** Resources of one kind, keyed by logical ID */
+const resourceMap = (ref: string, description: string) => ({
+  type: 'object',
+  description,
+  additionalProperties: { $ref: `#/components/schemas/${ref}` },
+});
+
+/** A list of `!Ref`s */
+const references = (description: string) => ({
+  type: 'array',
+  description,
+  items: { $ref: '#/components/schemas/QBLReference' },
+});
+
+/** QBL component schemas, keyed by component name */
+export const QBL_SCHEMAS: Record<string, Record<string, unknown>> = {
+  QBLVersion: {
+    type: 'string',
+    description: 'A QBL version. If not specified, QuickBase uses its default.',
+    enum: QBL_VERSIONS,
+  },
+  QBLDocument: {
+    type: 'object',
+    description: 'A QBL document describing the resources of a solution, exchanged as YAML.',
+    additionalProperties: true,
+    required: ['Version', 'Resources'],
+    properties: {
+      Solution: { $ref: '#/components/schemas/QBLSolutionInfo' },
+      Version: {
+        type: 'number',
+        // Unquoted in YAML, so the document carries the version as a number
+        description: 'The QBL version the document is written in (see QBLVersion).',
+        enum: QBL_VERSIONS.map(Number),
+      },
+      Resources: resourceMap('QBLApplication', 'The apps in the solution, keyed by logical ID (e.g. `$App_Example_app`).'),
+    },
+  },
+  QBLSolutionInfo: {
+    type: 'object',
+    description: 'The solution an exported document came from. Only present in exports.',
+    additionalProperties: true,
+    properties: {
+      Id: { type: 'string', description: 'The unique identifier (UUID) of the solution.' },
+      Name: { type: 'string' },
+      Owner: { type: 'string', description: 'The email address of the solution owner.' },
+      ExportDate: { type: 'string', description: 'When the document was exported (YYYY-MM-DD hh:mm:ss).' },
+    },
+  },
+  QBLReference: {
+    type: 'object',
+    description: 'A `!Ref` to another resource in the document: one key naming the kind of resource (`App`, `Role`, `Table`, `Field`), whose value is its logical ID.',
+    additionalProperties: { type: 'string' },
+  },
+  QBLApplication: {
+    type: 'object',
+    description: 'An app (`QB::Application`) with its roles, tables and relationships.',
+    additionalProperties: true,
+    required: ['Type', 'Properties'],
+    properties: {
+      Type: { type: 'string', enum: ['QB::Application'] },
+      Properties: namedProperties('Name', {
+        Manager: { type: 'string', description: 'The email address of the app manager.' },
+        TableOrder: references('The tables in the order the app shows them.'),
+        RoleOrder: references('The roles in the order the app lists them.'),
+      }),
+      Roles: resourceMap('QBLRole', 'The roles of the app, keyed by logical ID (e.g. `$Role_Viewer`).'),
+      Tables: resourceMap('QBLTable', 'The tables of the app, keyed by logical ID (e.g. `$Table_Projects`).'),
+      Relationships: resourceMap('QBLRelationship', 'The relationships between tables of the app, keyed by logical ID.'),
+    },
+  },
+  QBLRole: {
+    type: 'object',
+    description: 'A role of an app (`QB::Application::Role`).',
+    additionalProperties: true,
+    required: ['Type', 'Properties'],
+    properties: {
+      Type: { type: 'string', enum: ['QB::Application::Role'] },
+      Properties: namedProperties('Name', {
+        Default: { type: 'boolean', description: 'Whether new users get this role by default.' },
+        ManageUsers: { type: 'boolean' },
+        EditApp: { type: 'boolean' },
+        DisableAccess: { type: 'boolean' },
+      }),
+    },
+  },
+  QBLTable: {
+    type: 'object',
+    description: 'A table of an app, with its fields.',
+    additionalProperties: true,
+    required: ['Type', 'Properties'],
+    properties: {
+      Type: { type: 'string', description: 'The resource type, e.g. `QB::Application::Table`.' },
+      Properties: namedProperties('Name'),
+      Fields: resourceMap('QBLField', 'The fields of the table, keyed by logical ID (e.g. `$Field_Name`).'),
+    },
+  },
+  QBLField: {
+    type: 'object',
+    description: 'A field of a table.',
+    additionalProperties: true,
+    required: ['Type', 'Properties'],
+    properties: {
+      Type: { type: 'string', description: 'The resource type, e.g. `QB::Application::Table::Field`.' },
+      Properties: namedProperties('Label', {
+        FieldType: { type: 'string', description: 'The type of the field.' },
+      }),
+    },
+  },
+  QBLRelationship: {
+    type: 'object',
+    description: 'A relationship between a parent and a child table.',
+    additionalProperties: true,
+    required: ['Type', 'Properties'],
+    properties: {
+      Type: { type: 'string', description: 'The resource type of the relationship.' },
+      Properties: {
+        type: 'object',
+        additionalProperties: true,
+        properties: {
+          ParentTable: { $ref: '#/components/schemas/QBLReference' },
+          ChildTable: { $ref: '#/components/schemas/QBLReference' },
+          ForeignKeyField: { $ref: '#/components/schemas/QBLReference' },
+          LookupFields: references('Parent fields shown in the child table.'),
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseQuery, QueryParseError } from './query-language.js';
+
+describe('parseQuery', () => {
+  it('parses a condition', () => {
+    assert.deepEqual(parseQuery("{6.EX.'active'}"), {
+      kind: 'condition',
+      fieldId: 6,
+      operator: 'EX',
+      value: { kind: 'literal', value: 'active', quoted: true },
+      position: 0,
+    });
+  });
+
+  it('binds AND tighter than OR', () => {
+    const node = parseQuery("{6.EX.'a'}OR{7.GT.1}AND{8.LT.9}");
+    assert.equal(node.kind, 'or');
+    assert.equal(node.kind === 'or' && node.operands[1].kind, 'and');
+  });
+
+  it('allows whitespace between a quoted value and the closing brace', () => {
+    const node = parseQuery("{6.EX.'active' }");
+    assert.equal(node.kind === 'condition' && node.value.kind === 'literal' && node.value.value, 'active');
+  });
+
+  it('does not take AND/OR from the start of a longer word', () => {
+    const node = parseQuery("{6.EX.'ORDER'} or {7.EX.'ANDROID'}");
+    assert.equal(node.kind, 'or');
+
+    assert.throws(() => parseQuery("{6.EX.'a'}ORDER{7.EX.'b'}"), (error: unknown) =>
+      error instanceof QueryParseError && error.message.startsWith("Expected AND or OR, found 'O'"));
+    assert.throws(() => parseQuery("{6.EX.'a'}ANDY{7.EX.'b'}"), QueryParseError);
+  });
+
+  it('still accepts AND/OR next to braces and parentheses', () => {
+    assert.equal(parseQuery("{6.EX.'a'}AND({7.EX.'b'}OR{8.EX.'c'})").kind, 'and');
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * QuickBase query language parser
+ *
+ * Parses `where` filters such as `{6.EX.'active'}AND({7.GT.100}OR{8.OAF.'today'})`
+ * into a typed AST. Grammar:
+ *
+ *   query     := or
+ *   or        := and ('OR' and)*
+ *   and       := primary ('AND' primary)*
+ *   primary   := condition | '(' or ')'
+ *   condition := '{' fieldId '.' OPERATOR '.' value '}'
+ *   fieldId   := digits | "'" digits "'"
+ *   value     := quoted | unquoted | _FID_digits (compares against another field)
+ *
+ * Quoted values use single or double quotes; a backslash escapes the next character.
+ * AND binds tighter than OR, and AND/OR are case-insensitive.
+ */
+
+/** Every operator the query language accepts, with what it means */
+export const QUERY_OPERATORS = {
+  CT: 'contains',
+  XCT: 'does not contain',
+  HAS: 'has (multi-select text and list-user fields)',
+  XHAS: 'does not have',
+  EX: 'is equal to',
+  TV: 'true value (matches the underlying value, e.g. a user ID)',
+  XEX: 'is not equal to',
+  SW: 'starts with',
+  XSW: 'does not start with',
+  BF: 'is before',
+  OBF: 'is on or before',
+  AF: 'is after',
+  OAF: 'is on or after',
+  IR: 'is in range (dates)',
+  XIR: 'is not in range',
+  LT: 'is less than',
+  LTE: 'is less than or equal to',
+  GT: 'is greater than',
+  GTE: 'is greater than or equal to',
+} as const;
+
+export type QueryOperator = keyof typeof QUERY_OPERATORS;
+
+/** The right-hand side of a condition */
+export type QueryValue =
+  | { kind: 'literal'; value: string; quoted: boolean }
+  | { kind: 'field'; fieldId: number };
+
+/** A single `{fieldId.OP.value}` clause */
+export interface QueryCondition {
+  kind: 'condition';
+  fieldId: number;
+  operator: QueryOperator;
+  value: QueryValue;
+  /** Offset of the opening brace in the source */
+  position: number;
+}
+
+/** Conditions (or nested groups) joined by one boolean operator */
+export interface QueryGroup {
+  kind: 'and' | 'or';
+  operands: QueryNode[];
+}
+
+export type QueryNode = QueryCondition | QueryGroup;
+
+/** A syntax error, with the offset it was found at */
+export class QueryParseError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+    public readonly query: string
+  ) {
+    super(`${message} at position ${position}: ${query.slice(0, position)}»${query.slice(position)}`);
+    this.name = 'QueryParseError';
+  }
+}
+
+/** `_FID_7` as a value compares against field 7 */
+const FIELD_REFERENCE = /^_FID_(\d+)$/;
+
+/**
+ * Recursive-descent parser over the raw string (the language is small enough
+ * not to need a separate tokenizer)
+ */
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly input: string) {}
+
+  parse(): QueryNode {
+    this.skipWhitespace();
+    if (this.pos >= this.input.length) {
+      throw this.error('Empty query');
+    }
+
+    const node = this.parseOr();
+    this.skipWhitespace();
+    if (this.pos < this.input.length) {
+      const char = this.input[this.pos];
+      throw this.error(char === ')' ? 'Unmatched closing parenthesis' : `Expected AND or OR, found '${char}'`);
+    }
+    return node;
+  }
+
+  private parseOr(): QueryNode {
+    const operands = [this.parseAnd()];
+    while (this.matchKeyword('OR')) {
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { kind: 'or', operands };
+  }
+
+  private parseAnd(): QueryNode {
+    const operands = [this.parsePrimary()];
+    while (this.matchKeyword('AND')) {
+      operands.push(this.parsePrimary());
+    }
+    return operands.length === 1 ? operands[0] : { kind: 'and', operands };
+  }
+
+  private parsePrimary(): QueryNode {
+    this.skipWhitespace();
+    const char = this.input[this.pos];
+
+    if (char === '(') {
+      const open = this.pos++;
+      const node = this.parseOr();
+      this.skipWhitespace();
+      if (this.input[this.pos] !== ')') {
+        throw new QueryParseError('Unclosed parenthesis', open, this.input);
+      }
+      this.pos++;
+      return node;
+    }
+
+    if (char === '{') {
+      return this.parseCondition();
+    }
+
+    if (char === undefined) {
+      throw this.error('Expected a condition, found end of query');
+    }
+    throw this.error(`Expected '{' or '(', found '${char}'`);
+  }
+
+  private parseCondition(): QueryCondition {
+    const position = this.pos++;
+
+    const fieldId = this.parseFieldId();
+    this.expect('.', 'after the field ID');
+
+    const operatorStart = this.pos;
+    const operator = this.readWhile((c) => /[A-Za-z]/.test(c)).toUpperCase();
+    if (!operator) {
+      throw this.error('Expected an operator (e.g. EX, CT, GT)');
+    }
+    if (!(operator in QUERY_OPERATORS)) {
+      const suggestion = suggestOperator(operator);
+      throw new QueryParseError(
+        `Unknown operator '${operator}'${suggestion ? ` (did you mean ${suggestion}?)` : ''}`,
+        operatorStart,
+        this.input
+      );
+    }
+    this.expect('.', 'after the operator');
+
+    const value = this.parseValue();
+    this.skipWhitespace();
+    if (this.input[this.pos] !== '}') {
+      throw new QueryParseError(`Unclosed condition, expected '}'`, position, this.input);
+    }
+    this.pos++;
+
+    return { kind: 'condition', fieldId, operator: operator as QueryOperator, value, position };
+  }
+
+  private parseFieldId(): number {
+    const start = this.pos;
+    const quote = this.input[this.pos] === "'" ? this.input[this.pos++] : '';
+    const digits = this.readWhile((c) => /\d/.test(c));
+
+    if (!digits) {
+      throw new QueryParseError('Expected a numeric field ID', start, this.input);
+    }
+    if (quote) {
+      this.expect(quote, 'to close the field ID');
+    }
+    return Number(digits);
+  }
+
+  private parseValue(): QueryValue {
+    const char = this.input[this.pos];
+
+    if (char === "'" || char === '"') {
+      const start = this.pos++;
+      let value = '';
+      while (this.pos < this.input.length && this.input[this.pos] !== char) {
+        if (this.input[this.pos] === '\\' && this.pos + 1 < this.input.length) {
+          this.pos++;
+        }
+        value += this.input[this.pos++];
+      }
+      if (this.pos >= this.input.length) {
+        throw new QueryParseError('Unterminated quoted value', start, this.input);
+      }
+      this.pos++;
+      return toValue(value, true);
+    }
+
+    // Unquoted values run to the closing brace
+    const value = this.readWhile((c) => c !== '}');
+    return toValue(value.trim(), false);
+  }
+
+  /** Consume AND/OR (surrounded by optional whitespace) if it comes next as a whole word */
+  private matchKeyword(keyword: string): boolean {
+    const start = this.pos;
+    this.skipWhitespace();
+    if (new RegExp(`^${keyword}\\b`, 'i').test(this.input.slice(this.pos))) {
+      this.pos += keyword.length;
+      return true;
+    }
+    this.pos = start;
+    return false;
+  }
+
+  private expect(char: string, context: string): void {
+    if (this.input[this.pos] !== char) {
+      const found = this.input[this.pos] === undefined ? 'end of query' : `'${this.input[this.pos]}'`;
+      throw this.error(`Expected '${char}' ${context}, found ${found}`);
+    }
+    this.pos++;
+  }
+
+  private readWhile(predicate: (char: string) => boolean): string {
+    const start = this.pos;
+    while (this.pos < this.input.length && predicate(this.input[this.pos])) {
+      this.pos++;
+    }
+    return this.input.slice(start, this.pos);
+  }
+
+  private skipWhitespace(): void {
+    this.readWhile((c) => /\s/.test(c));
+  }
+
+  private error(message: string): QueryParseError {
+    return new QueryParseError(message, this.pos, this.input);
+  }
+}
+
+/**
+ * Build a value node, recognising `_FID_n` field references
+ */
+function toValue(value: string, quoted: boolean): QueryValue {
+  const reference = FIELD_REFERENCE.exec(value);
+  if (reference) {
+    return { kind: 'field', fieldId: Number(reference[1]) };
+  }
+  return { kind: 'literal', value, quoted };
+}
+
+/**
+ * Suggest a known operator for a typo (e.g. EQ -> EX, GE -> GTE)
+ */
+function suggestOperator(operator: string): string | undefined {
+  const aliases: Record<string, QueryOperator> = {
+    EQ: 'EX', NE: 'XEX', NEQ: 'XEX', GE: 'GTE', LE: 'LTE', CONTAINS: 'CT', IN: 'HAS',
+  };
+  if (aliases[operator]) return aliases[operator];
+
+  // Same letters in a different order or with one extra/missing letter
+  return Object.keys(QUERY_OPERATORS).find(
+    (known) => Math.abs(known.length - operator.length) <= 1 &&
+      [...operator].filter((c) => known.includes(c)).length >= Math.min(known.length, operator.length)
+  );
+}
+
+/**
+ * Parse a QuickBase query string into an AST.
+ * Throws a QueryParseError describing the first problem found.
+ */
+export function parseQuery(query: string): QueryNode {
+  return new Parser(query).parse();
+}
+
+/**
+ * List the field IDs a query refers to, including `_FID_n` values
+ */
+export function collectQueryFieldIds(node: QueryNode): number[] {
+  if (node.kind === 'condition') {
+    return node.value.kind === 'field' ? [node.fieldId, node.value.fieldId] : [node.fieldId];
+  }
+  return [...new Set(node.operands.flatMap(collectQueryFieldIds))];
+}
@@ -0,0 +1,233 @@
+/**
+ * Report type catalog
+ *
+ * getReport and getTableReports return a `properties` object whose shape depends
+ * on the report `type`. The source spec leaves it as a loose object; the patch step
+ * builds one `<Type>Report` component per entry here and a `Report` union
+ * discriminated on `type`. QuickBase documents these properties on its Report Types
+ * page only, so each schema keeps `additionalProperties` for keys not listed.
+ */
+
+export interface ReportTypeDefinition {
+  /** Component name prefix (`TableReport`, `TableReportProperties`) */
+  name: string;
+  description: string;
+  /** Schema of the report's `properties` */
+  properties: Record<string, unknown>;
+  /** A getReport response for this type, generated as a fixture variant */
+  example: Record<string, unknown>;
+}
+
+const displayOnlyNewOrChangedRecords = {
+  type: 'boolean',
+  description: 'Whether the report only shows records that are new or changed since the user last viewed it.',
+};
+
+/** A field the report groups by, with how its values are bucketed */
+const fieldGrouping = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    fieldId: { type: 'integer', description: 'The unique identifier of a field in a table.' },
+    grouping: { type: 'string', description: 'How values are grouped (e.g. equal-values, first-letter, month).' },
+  },
+};
+
+/** A summarized field, with the function that aggregates it */
+const fieldAccumulation = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    fieldId: { type: 'integer', description: 'The unique identifier of a field in a table.' },
+    accumulationType: { $ref: '#/components/schemas/AccumulationType' },
+  },
+};
+
+const query = {
+  tableId: 'bpweef42b',
+  filter: "{6.CT.'FilterByThisValue'}",
+  formulaFields: [],
+  fields: [6, 7],
+  sortBy: [{ fieldId: 6, order: 'ASC' }],
+  groupBy: [],
+};
+
+/** Report types, keyed by the value of `type` */
+export const REPORT_TYPES: Record<string, ReportTypeDefinition> = {
+  table: {
+    name: 'TableReport',
+    description: 'A table report, listing records.',
+    properties: {
+      type: 'object',
+      additionalProperties: true,
+      properties: {
+        displayOnlyNewOrChangedRecords,
+        columnProperties: {
+          type: 'array',
+          description: 'Per-column display overrides.',
+          items: {
+            type: 'object',
+            additionalProperties: true,
+            properties: {
+              fieldId: { type: 'integer', description: 'The unique identifier of a field in a table.' },
+              labelOverride: { type: 'string', description: 'The column heading shown instead of the field label.' },
+            },
+          },
+        },
+      },
+    },
+    // The example from the source spec
+    example: {
+      id: '5',
+      name: 'table-report',
+      type: 'table',
+      description: 'This is Table report.',
+      query: {
+        tableId: 'bpweef42b',
+        filter: "{6.CT.'FilterByThisValue'}",
+        formulaFields: [{ id: -100, label: 'NumericField', fieldType: 'numeric', formula: '1+1', decimalPrecision: 4 }],
+        fields: [7],
+        sortBy: [{ fieldId: 28, order: 'ASC' }, { fieldId: 3, order: 'ASC' }],
+        groupBy: [{ fieldId: 3, grouping: 'equal-values' }],
+      },
+      properties: {
+        displayOnlyNewOrChangedRecords: true,
+        columnProperties: [{ fieldId: -100, labelOverride: 'Numeric Field Label' }],
+      },
+      usedLast: '2020-09-20T20:23:00Z',
+      usedCount: 7,
+    },
+  },
+  summary: {
+    name: 'SummaryReport',
+    description: 'A summary report, aggregating field values by group.',
+    properties: {
+      type: 'object',
+      additionalProperties: true,
+      properties: {
+        displayOnlyNewOrChangedRecords,
+        summaryFields: {
+          type: 'array',
+          description: 'The fields summarized in each group.',
+          items: fieldAccumulation,
+        },
+        crosstabs: { ...fieldGrouping, description: 'The field whose values become columns, if the summary is a crosstab.' },
+      },
+    },
+    example: {
+      id: '6',
+      name: 'summary-report',
+      type: 'summary',
+      description: 'Totals by status.',
+      query: { ...query, groupBy: [{ fieldId: 8, grouping: 'equal-values' }] },
+      properties: {
+        displayOnlyNewOrChangedRecords: false,
+        summaryFields: [{ fieldId: 9, accumulationType: 'SUM' }],
+      },
+      usedLast: '2020-09-20T20:23:00Z',
+      usedCount: 3,
+    },
+  },
+  chart: {
+    name: 'ChartReport',
+    description: 'A chart report, aggregating field values along its axes.',
+    properties: {
+      type: 'object',
+      additionalProperties: true,
+      properties: {
+        displayOnlyNewOrChangedRecords,
+        chartType: { type: 'string', description: 'The kind of chart (e.g. bar, line, pie).' },
+        categories: { ...fieldGrouping, description: 'The field plotted along the category (x) axis.' },
+        series: { ...fieldGrouping, description: 'The field that splits values into series, if any.' },
+        values: {
+          type: 'array',
+          description: 'The fields plotted along the value (y) axis.',
+          items: fieldAccumulation,
+        },
+      },
+    },
+    example: {
+      id: '7',
+      name: 'chart-report',
+      type: 'chart',
+      description: 'Amount by month.',
+      query,
+      properties: {
+        displayOnlyNewOrChangedRecords: false,
+        chartType: 'bar',
+        categories: { fieldId: 10, grouping: 'month' },
+        values: [{ fieldId: 9, accumulationType: 'SUM' }],
+      },
+      usedLast: '2020-09-20T20:23:00Z',
+      usedCount: 12,
+    },
+  },
+  calendar: {
+    name: 'CalendarReport',
+    description: 'A calendar report, placing records on their dates.',
+    properties: {
+      type: 'object',
+      additionalProperties: true,
+      properties: {
+        displayOnlyNewOrChangedRecords,
+        startDate: { type: 'integer', description: 'The ID of the date field records start on.' },
+        endDate: { type: 'integer', description: 'The ID of the date field records end on, for multi-day records.' },
+      },
+    },
+    example: {
+      id: '8',
+      name: 'calendar-report',
+      type: 'calendar',
+      description: 'Due dates.',
+      query,
+      properties: { displayOnlyNewOrChangedRecords: false, startDate: 10, endDate: 11 },
+      usedLast: '2020-09-20T20:23:00Z',
+      usedCount: 5,
+    },
+  },
+  timeline: {
+    name: 'TimelineReport',
+    description: 'A timeline report, drawing records as bars between two dates.',
+    properties: {
+      type: 'object',
+      additionalProperties: true,
+      properties: {
+        displayOnlyNewOrChangedRecords,
+        startDate: { type: 'integer', description: 'The ID of the date field each bar starts on.' },
+        endDate: { type: 'integer', description: 'The ID of the date field each bar ends on.' },
+      },
+    },
+    example: {
+      id: '9',
+      name: 'timeline-report',
+      type: 'timeline',
+      description: 'Project schedule.',
+      query,
+      properties: { displayOnlyNewOrChangedRecords: false, startDate: 10, endDate: 11 },
+      usedLast: '2020-09-20T20:23:00Z',
+      usedCount: 2,
+    },
+  },
+  map: {
+    name: 'MapReport',
+    description: 'A map report, placing records at their addresses.',
+    properties: {
+      type: 'object',
+      additionalProperties: true,
+      properties: {
+        displayOnlyNewOrChangedRecords,
+        addressField: { type: 'integer', description: 'The ID of the address field records are placed by.' },
+      },
+    },
+    example: {
+      id: '10',
+      name: 'map-report',
+      type: 'map',
+      description: 'Customer locations.',
+      query,
+      properties: { displayOnlyNewOrChangedRecords: false, addressField: 12 },
+      usedLast: '2020-09-20T20:23:00Z',
+      usedCount: 4,
+    },
+  },
+};
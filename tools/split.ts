@@ -7,7 +7,7 @@
  * - Parallel processing
  */
 
-import { readJson, writeJson, PATHS, log, runTask } from './common.js';
+import { readJson, writeJson, PATHS, log, runTask, getTagSlug, TagObject } from './common.js';
 import { join } from 'path';
 import { existsSync, mkdirSync } from 'fs';
 
@@ -19,9 +19,11 @@ interface OpenAPISpec {
   components?: {
     schemas?: Record<string, unknown>;
     parameters?: Record<string, unknown>;
+    responses?: Record<string, unknown>;
+    headers?: Record<string, unknown>;
     securitySchemes?: Record<string, unknown>;
   };
-  tags?: Array<{ name: string; description?: string }>;
+  tags?: TagObject[];
 }
 
 interface PathItem {
@@ -85,7 +87,7 @@ export async function split(inputPath?: string): Promise<void> {
     // Read spec
     const spec = readJson<OpenAPISpec>(input);
 
-    // Group paths by tag
+    // Group paths by tag slug
     const pathsByTag = new Map<string, Record<string, PathItem>>();
     const untaggedPaths: Record<string, PathItem> = {};
 
@@ -96,7 +98,7 @@ export async function split(inputPath?: string): Promise<void> {
         const operation = pathItem[method];
         if (operation?.tags) {
           for (const tag of operation.tags) {
-            tags.add(tag.toLowerCase());
+            tags.add(getTagSlug(spec.tags, tag));
           }
         }
       }
@@ -126,6 +128,8 @@ export async function split(inputPath?: string): Promise<void> {
       // Collect $refs used by this tag's paths
       const refs = new Set<string>();
       collectRefs(paths, refs);
+      // Shared error responses are copied whole, so include the schemas they use
+      collectRefs(spec.components?.responses, refs);
       const schemaNames = extractSchemaNames(refs);
 
       // Build minimal schema set for this tag
@@ -154,8 +158,12 @@ export async function split(inputPath?: string): Promise<void> {
         paths,
         components: {
           schemas: tagSchemas,
+          parameters: spec.components?.parameters,
+          responses: spec.components?.responses,
+          headers: spec.components?.headers,
           securitySchemes: spec.components?.securitySchemes,
         },
+        tags: spec.tags?.filter((t) => getTagSlug(spec.tags, t.name) === tag),
       };
 
       const outputPath = join(outputDir, `${tag}.json`);
@@ -168,6 +176,7 @@ export async function split(inputPath?: string): Promise<void> {
     if (Object.keys(untaggedPaths).length > 0) {
       const refs = new Set<string>();
       collectRefs(untaggedPaths, refs);
+      collectRefs(spec.components?.responses, refs);
       const schemaNames = extractSchemaNames(refs);
 
       const untaggedSchemas: Record<string, unknown> = {};
@@ -187,6 +196,9 @@ export async function split(inputPath?: string): Promise<void> {
         paths: untaggedPaths,
         components: {
           schemas: untaggedSchemas,
+          parameters: spec.components?.parameters,
+          responses: spec.components?.responses,
+          headers: spec.components?.headers,
           securitySchemes: spec.components?.securitySchemes,
         },
       };
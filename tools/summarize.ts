@@ -6,7 +6,10 @@
  * - output/operations.json - Machine-readable lightweight summary
  */
 
-import { readJson, writeJson, PATHS, log, runTask } from './common.js';
+import { readJson, writeJson, PATHS, log, runTask, getTagSlug, TagObject } from './common.js';
+import { Pagination } from './pagination.js';
+import { PartialSuccess } from './partial-success.js';
+import { AsyncOperation } from './async-operations.js';
 import { join } from 'path';
 import { writeFileSync } from 'fs';
 
@@ -19,7 +22,10 @@ interface OpenAPISpec {
   paths: Record<string, PathItem>;
   components?: {
     schemas?: Record<string, Schema>;
+    parameters?: Record<string, Parameter>;
   };
+  security?: Array<Record<string, string[]>>;
+  tags?: TagObject[];
 }
 
 interface PathItem {
@@ -35,9 +41,13 @@ interface Operation {
   summary?: string;
   description?: string;
   tags?: string[];
-  parameters?: Parameter[];
+  parameters?: Array<Parameter | { $ref: string }>;
   requestBody?: RequestBody;
   responses?: Record<string, Response>;
+  security?: Array<Record<string, string[]>>;
+  'x-qb-pagination'?: Pagination;
+  'x-qb-partial-success'?: PartialSuccess;
+  'x-qb-async'?: AsyncOperation;
 }
 
 interface Parameter {
@@ -50,20 +60,12 @@ interface Parameter {
 
 interface RequestBody {
   required?: boolean;
-  content?: {
-    'application/json'?: {
-      schema?: Schema;
-    };
-  };
+  content?: Record<string, { schema?: Schema }>;
 }
 
 interface Response {
   description: string;
-  content?: {
-    'application/json'?: {
-      schema?: Schema;
-    };
-  };
+  content?: Record<string, { schema?: Schema }>;
 }
 
 interface Schema {
@@ -73,6 +75,9 @@ interface Schema {
   required?: string[];
   items?: Schema;
   description?: string;
+  oneOf?: Schema[];
+  allOf?: Schema[];
+  discriminator?: { propertyName: string };
 }
 
 interface OperationSummary {
@@ -82,14 +87,21 @@ interface OperationSummary {
   summary: string;
   description?: string;
   tags: string[];
+  tagSlug: string;
   pathParams: string[];
   queryParams: string[];
   hasRequestBody: boolean;
   requestBodyRequired: boolean;
+  requestContentType?: string;
   requestBodyFields: FieldInfo[];
   responseType: string;
   responseIsArray: boolean;
+  responseContentTypes: string[];
   successCode: string;
+  authModes: string[];
+  pagination?: Pagination;
+  partialSuccess?: PartialSuccess;
+  async?: AsyncOperation;
 }
 
 // Compact version for JSON output (no descriptions to save space)
@@ -99,14 +111,21 @@ interface CompactOperationSummary {
   path: string;
   summary: string;
   tags: string[];
+  tagSlug: string;
   pathParams: string[];
   queryParams: string[];
   hasRequestBody: boolean;
   requestBodyRequired: boolean;
+  requestContentType?: string;
   requiredFields: string[];
   optionalFields: string[];
   responseType: string;
   responseIsArray: boolean;
+  responseContentTypes: string[];
+  authModes: string[];
+  pagination?: Pagination;
+  partialSuccess?: PartialSuccess;
+  async?: AsyncOperation;
 }
 
 interface FieldInfo {
@@ -122,6 +141,7 @@ interface SummaryResult {
 }
 
 interface CompactSummaryResult {
+  tags: TagObject[];
   operations: CompactOperationSummary[];
   byTag: Record<string, CompactOperationSummary[]>;
 }
@@ -136,14 +156,21 @@ function toCompact(op: OperationSummary): CompactOperationSummary {
     path: op.path,
     summary: op.summary,
     tags: op.tags,
+    tagSlug: op.tagSlug,
     pathParams: op.pathParams,
     queryParams: op.queryParams,
     hasRequestBody: op.hasRequestBody,
     requestBodyRequired: op.requestBodyRequired,
+    requestContentType: op.requestContentType,
     requiredFields: op.requestBodyFields.filter((f) => f.required).map((f) => f.name),
     optionalFields: op.requestBodyFields.filter((f) => !f.required).map((f) => f.name),
     responseType: op.responseType,
     responseIsArray: op.responseIsArray,
+    responseContentTypes: op.responseContentTypes,
+    authModes: op.authModes,
+    pagination: op.pagination,
+    partialSuccess: op.partialSuccess,
+    async: op.async,
   };
 }
 
@@ -158,9 +185,24 @@ function getSchemaName(schema: Schema | undefined): string {
   if (schema.type === 'array' && schema.items) {
     return `[]${getSchemaName(schema.items)}`;
   }
+  // A $ref wrapped in allOf to carry keywords (e.g. a default) beside it
+  if (!schema.type && schema.allOf?.length === 1) {
+    return getSchemaName(schema.allOf[0]);
+  }
   return schema.type || 'object';
 }
 
+/**
+ * Pick the primary media type of a content map: JSON if declared, otherwise the first one
+ */
+function getPrimaryMediaType(
+  content: Record<string, { schema?: Schema }> | undefined
+): { mediaType: string; schema?: Schema } | undefined {
+  if (!content) return undefined;
+  const mediaType = content['application/json'] ? 'application/json' : Object.keys(content)[0];
+  return mediaType ? { mediaType, schema: content[mediaType].schema } : undefined;
+}
+
 /**
  * Extract field info from a schema
  */
@@ -176,6 +218,19 @@ function extractFields(schema: Schema | undefined, spec: OpenAPISpec, depth = 0)
     return [];
   }
 
+  // Discriminated union: the fields every variant has
+  if (schema.oneOf && schema.discriminator) {
+    const variants = schema.oneOf.map((variant) => extractFields(variant, spec, depth));
+    return variants[0].filter((field) => variants.every((fields) => fields.some((f) => f.name === field.name))).map((field) => {
+      const matches = variants.map((fields) => fields.find((f) => f.name === field.name)!);
+      return {
+        ...field,
+        type: matches.every((f) => f.type === field.type) ? field.type : `varies by ${schema.discriminator!.propertyName}`,
+        required: matches.every((f) => f.required),
+      };
+    });
+  }
+
   if (!schema.properties) return [];
 
   const required = new Set(schema.required || []);
@@ -187,6 +242,25 @@ function extractFields(schema: Schema | undefined, spec: OpenAPISpec, depth = 0)
   }));
 }
 
+/**
+ * Resolve a parameter, following a $ref into components/parameters
+ */
+function resolveParameter(param: Parameter | { $ref: string }, spec: OpenAPISpec): Parameter | undefined {
+  if ('$ref' in param) {
+    return spec.components?.parameters?.[param.$ref.replace('#/components/parameters/', '')];
+  }
+  return param;
+}
+
+/**
+ * List the accepted auth modes from security requirements.
+ * Alternatives are separate entries; schemes needed together are joined with "+"
+ * e.g. [{ userToken: [], appToken: [] }] -> ["userToken+appToken"], [] -> []
+ */
+function getAuthModes(security: Array<Record<string, string[]>> | undefined): string[] {
+  return (security || []).map((requirement) => Object.keys(requirement).join('+')).filter(Boolean);
+}
+
 /**
  * Extract operations from the spec
  */
@@ -202,19 +276,23 @@ function extractOperations(spec: OpenAPISpec): OperationSummary[] {
       // Extract path and query params
       const pathParams: string[] = [];
       const queryParams: string[] = [];
-      for (const param of op.parameters || []) {
+      for (const entry of op.parameters || []) {
+        const param = resolveParameter(entry, spec);
+        if (!param) continue;
         if (param.in === 'path') pathParams.push(param.name);
         if (param.in === 'query') queryParams.push(param.name);
       }
 
       // Extract request body info
-      const requestSchema = op.requestBody?.content?.['application/json']?.schema;
+      const requestMedia = getPrimaryMediaType(op.requestBody?.content);
+      const requestSchema = requestMedia?.schema;
       const requestBodyFields = extractFields(requestSchema, spec);
 
       // Find success response
       const successCodes = ['200', '201', '204', '207'];
       const successCode = successCodes.find((code) => op.responses?.[code]) || '200';
-      const responseSchema = op.responses?.[successCode]?.content?.['application/json']?.schema;
+      const responseContent = op.responses?.[successCode]?.content;
+      const responseSchema = getPrimaryMediaType(responseContent)?.schema;
 
       // Determine if response is an array
       const responseIsArray = responseSchema?.type === 'array';
@@ -226,14 +304,21 @@ function extractOperations(spec: OpenAPISpec): OperationSummary[] {
         summary: op.summary || '',
         description: op.description,
         tags: op.tags || [],
+        tagSlug: getTagSlug(spec.tags, op.tags?.[0]),
         pathParams,
         queryParams,
         hasRequestBody: !!requestSchema,
         requestBodyRequired: op.requestBody?.required || false,
+        requestContentType: requestMedia?.mediaType,
         requestBodyFields,
         responseType: getSchemaName(responseSchema),
         responseIsArray,
+        responseContentTypes: Object.keys(responseContent || {}),
         successCode,
+        authModes: getAuthModes(op.security ?? spec.security),
+        pagination: op['x-qb-pagination'],
+        partialSuccess: op['x-qb-partial-success'],
+        async: op['x-qb-async'],
       });
     }
   }
@@ -242,9 +327,9 @@ function extractOperations(spec: OpenAPISpec): OperationSummary[] {
 }
 
 /**
- * Group operations by tag
+ * Group operations by tag, in the tag order declared by the spec
  */
-function groupByTag(operations: OperationSummary[]): Record<string, OperationSummary[]> {
+function groupByTag(operations: OperationSummary[], tags: TagObject[] = []): Record<string, OperationSummary[]> {
   const byTag: Record<string, OperationSummary[]> = {};
 
   for (const op of operations) {
@@ -253,9 +338,13 @@ function groupByTag(operations: OperationSummary[]): Record<string, OperationSum
     byTag[tag].push(op);
   }
 
-  // Sort tags and operations within each tag
+  // Order tags as declared (undeclared tags last, alphabetically), sort operations within each tag
+  const tagOrder = (tag: string): number => {
+    const index = tags.findIndex((t) => t.name === tag);
+    return index === -1 ? Infinity : index;
+  };
   const sortedByTag: Record<string, OperationSummary[]> = {};
-  for (const tag of Object.keys(byTag).sort()) {
+  for (const tag of Object.keys(byTag).sort((a, b) => tagOrder(a) - tagOrder(b) || a.localeCompare(b))) {
     sortedByTag[tag] = byTag[tag].sort((a, b) => a.operationId.localeCompare(b.operationId));
   }
 
@@ -306,6 +395,11 @@ function generateMarkdown(summary: SummaryResult, spec: OpenAPISpec): string {
       lines.push('');
     }
 
+    // Auth
+    const authModes = op.authModes.map((mode) => mode.split('+').map((m) => `\`${m}\``).join(' + '));
+    lines.push(`**Auth:** ${authModes.length > 0 ? authModes.join(' or ') : 'none'}`);
+    lines.push('');
+
     // Path parameters
     if (op.pathParams.length > 0) {
       lines.push(`**Path Parameters:** ${op.pathParams.map((p) => `\`${p}\``).join(', ')}`);
@@ -319,7 +413,10 @@ function generateMarkdown(summary: SummaryResult, spec: OpenAPISpec): string {
     }
 
     // Request body
-    if (op.hasRequestBody && op.requestBodyFields.length > 0) {
+    if (op.hasRequestBody && op.requestContentType && op.requestContentType !== 'application/json') {
+      lines.push(`**Request Body:** ${op.requestBodyRequired ? '(required)' : '(optional)'} \`${op.requestContentType}\``);
+      lines.push('');
+    } else if (op.hasRequestBody && op.requestBodyFields.length > 0) {
       lines.push(`**Request Body:** ${op.requestBodyRequired ? '(required)' : '(optional)'}`);
       lines.push('');
       const requiredFields = op.requestBodyFields.filter((f) => f.required);
@@ -348,6 +445,25 @@ function generateMarkdown(summary: SummaryResult, spec: OpenAPISpec): string {
     // Response
     lines.push(`**Response:** ${op.successCode} → \`${op.responseType}\``);
     lines.push('');
+    if (op.pagination) {
+      const cursor = Object.values(op.pagination.request).map((p) => `\`${p.name}\` (${p.in})`);
+      lines.push(`**Pagination:** ${op.pagination.style}, ${cursor.join(', ')}. ${op.pagination.description}`);
+      lines.push('');
+    }
+    if (op.partialSuccess) {
+      lines.push(`**Partial success:** 207 → \`${op.partialSuccess.schema}\` (${op.partialSuccess.style}). ${op.partialSuccess.description}`);
+      lines.push('');
+    }
+    if (op.async) {
+      const echo = Object.keys(op.async.echo).map((name) => `\`${name}\``);
+      lines.push(`**Async:** ${op.async.pendingStatus} until ${op.async.doneStatus}, echoing ${echo.join(', ')}. ${op.async.description}`);
+      lines.push('');
+    }
+    const nonJsonTypes = op.responseContentTypes.filter((t) => t !== 'application/json');
+    if (nonJsonTypes.length > 0) {
+      lines.push(`**Response Content Types:** ${op.responseContentTypes.map((t) => `\`${t}\``).join(', ')}`);
+      lines.push('');
+    }
     lines.push('---');
     lines.push('');
   }
@@ -364,11 +480,12 @@ async function summarize(): Promise<void> {
     const spec = readJson<OpenAPISpec>(specPath);
 
     const operations = extractOperations(spec);
-    const byTag = groupByTag(operations);
+    const byTag = groupByTag(operations, spec.tags);
     const summary: SummaryResult = { operations, byTag };
 
     // Write compact JSON summary (no descriptions, smaller file)
     const compactSummary: CompactSummaryResult = {
+      tags: spec.tags || [],
       operations: operations.map(toCompact),
       byTag: Object.fromEntries(
         Object.entries(byTag).map(([tag, ops]) => [tag, ops.map(toCompact)])
@@ -6,6 +6,8 @@
  * - OpenAPI schema compliance
  * - All $refs resolve correctly
  * - Required fields are present
+ * - Schema keywords match the declared OpenAPI version (3.0 or 3.1)
+ * - Security requirements name declared security schemes
  */
 
 import { readJson, PATHS, log, runTask } from './common.js';
@@ -22,7 +24,11 @@ interface OpenAPISpec {
   components?: {
     schemas?: Record<string, unknown>;
     parameters?: Record<string, unknown>;
+    responses?: Record<string, unknown>;
+    headers?: Record<string, unknown>;
+    securitySchemes?: Record<string, unknown>;
   };
+  security?: Array<Record<string, string[]>>;
 }
 
 interface PathItem {
@@ -38,6 +44,7 @@ interface Operation {
   responses?: Record<string, unknown>;
   parameters?: unknown[];
   requestBody?: unknown;
+  security?: Array<Record<string, string[]>>;
 }
 
 interface ValidationResult {
@@ -72,8 +79,8 @@ function validateStructure(spec: OpenAPISpec): ValidationResult {
   if (!spec.openapi) {
     result.errors.push('Missing required field: openapi');
     result.valid = false;
-  } else if (!spec.openapi.startsWith('3.')) {
-    result.errors.push(`Expected OpenAPI 3.x, got: ${spec.openapi}`);
+  } else if (!spec.openapi.startsWith('3.0.') && !spec.openapi.startsWith('3.1.')) {
+    result.errors.push(`Expected OpenAPI 3.0.x or 3.1.x, got: ${spec.openapi}`);
     result.valid = false;
   }
 
@@ -178,12 +185,100 @@ function validateRefs(spec: OpenAPISpec, result: ValidationResult): void {
         result.errors.push(`Unresolved $ref: ${ref}`);
         result.valid = false;
       }
+    } else if (ref.startsWith('#/components/responses/')) {
+      if (!spec.components?.responses?.[ref.replace('#/components/responses/', '')]) {
+        result.errors.push(`Unresolved $ref: ${ref}`);
+        result.valid = false;
+      }
+    } else if (ref.startsWith('#/components/headers/')) {
+      if (!spec.components?.headers?.[ref.replace('#/components/headers/', '')]) {
+        result.errors.push(`Unresolved $ref: ${ref}`);
+        result.valid = false;
+      }
     } else if (!ref.startsWith('#/')) {
       result.warnings.push(`External $ref (not validated): ${ref}`);
     }
   }
 }
 
+/**
+ * Validate that global and per-operation security requirements use declared schemes
+ */
+function validateSecurity(spec: OpenAPISpec, result: ValidationResult): void {
+  const schemes = spec.components?.securitySchemes || {};
+
+  const check = (requirements: Array<Record<string, string[]>> | undefined, where: string): void => {
+    for (const requirement of requirements || []) {
+      for (const name of Object.keys(requirement)) {
+        if (!schemes[name]) {
+          result.errors.push(`Unknown security scheme '${name}' in ${where}`);
+          result.valid = false;
+        }
+      }
+    }
+  };
+
+  check(spec.security, 'global security');
+
+  for (const [path, pathItem] of Object.entries(spec.paths || {})) {
+    for (const method of ['get', 'post', 'put', 'delete', 'patch'] as const) {
+      const operation = pathItem[method];
+      if (operation) {
+        check(operation.security, operation.operationId || `${method.toUpperCase()} ${path}`);
+      }
+    }
+  }
+}
+
+/** Schema keywords that only exist in one OpenAPI version */
+const VERSION_ONLY_KEYWORDS = {
+  '3.0': ['nullable'],
+  '3.1': ['const', 'propertyNames', 'prefixItems', 'unevaluatedProperties'],
+};
+
+/**
+ * Validate that schema keywords match the declared OpenAPI version
+ */
+function validateVersionKeywords(spec: OpenAPISpec, result: ValidationResult): void {
+  const is31 = spec.openapi?.startsWith('3.1.');
+  const disallowed = is31 ? VERSION_ONLY_KEYWORDS['3.0'] : VERSION_ONLY_KEYWORDS['3.1'];
+  const version = is31 ? '3.1' : '3.0';
+
+  const check = (obj: unknown, path: string, parentKey: string): void => {
+    if (typeof obj !== 'object' || obj === null) return;
+
+    const record = obj as Record<string, unknown>;
+
+    // Property maps hold schemas by name; they aren't schemas themselves
+    if (parentKey !== 'properties') {
+      for (const keyword of disallowed) {
+        if (keyword in record) {
+          result.errors.push(`Keyword '${keyword}' is not valid in OpenAPI ${version}: ${path}`);
+          result.valid = false;
+        }
+      }
+
+      if (!is31 && Array.isArray(record.type)) {
+        result.errors.push(`Type arrays are not valid in OpenAPI 3.0: ${path}`);
+        result.valid = false;
+      }
+
+      if (!is31 && typeof record.$ref === 'string' && Object.keys(record).length > 1) {
+        result.warnings.push(`$ref siblings are ignored in OpenAPI 3.0: ${path}`);
+      }
+    }
+
+    for (const [key, value] of Object.entries(record)) {
+      // Example payloads aren't schemas
+      if ((key === 'example' || key === 'examples') && parentKey !== 'properties') continue;
+      check(value, `${path}/${key}`, key);
+    }
+  };
+
+  check(spec.paths, '#/paths', '');
+  check(spec.components, '#/components', '');
+}
+
 /**
  * Main validate function
  */
@@ -213,8 +308,11 @@ export async function validate(inputPath?: string): Promise<ValidationResult> {
     const result = validateStructure(spec);
     validatePaths(spec, result);
     validateRefs(spec, result);
+    validateSecurity(spec, result);
+    validateVersionKeywords(spec, result);
 
     // Log results
+    log('info', `OpenAPI: ${spec.openapi}`);
     log('info', `Paths: ${result.stats.paths}`);
     log('info', `Operations: ${result.stats.operations}`);
     log('info', `Schemas: ${result.stats.schemas}`);